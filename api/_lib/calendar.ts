@@ -0,0 +1,79 @@
+// api/_lib/calendar.ts — calendário de coleta (fuso de São Paulo)
+import type { Locale } from "./types.js";
+
+export const TIME_SLOTS = ["09:00", "11:00", "14:00", "16:00", "18:00"];
+
+// SCHEDULE_TZ: fuso do atendimento (padrão America/Sao_Paulo)
+// NON_WORKING_WEEKDAYS: dias sem coleta, 0=domingo … 6=sábado (padrão "0")
+// HOLIDAYS: datas extras sem coleta, "AAAA-MM-DD" ou "MM-DD" separadas por vírgula
+// LEAD_TIME_HOURS: antecedência mínima entre agora e o horário escolhido (padrão 3)
+export const SCHEDULE_TZ = process.env.SCHEDULE_TZ || "America/Sao_Paulo";
+const NON_WORKING_WEEKDAYS = (process.env.NON_WORKING_WEEKDAYS ?? "0")
+  .split(",").map((s) => s.trim()).filter(Boolean).map(Number);
+const NATIONAL_HOLIDAYS = ["01-01", "04-21", "05-01", "09-07", "10-12", "11-02", "11-15", "11-20", "12-25"];
+const HOLIDAYS = new Set([
+  ...NATIONAL_HOLIDAYS,
+  ...(process.env.HOLIDAYS || "").split(",").map((s) => s.trim()).filter(Boolean),
+]);
+export const LEAD_TIME_HOURS = Number(process.env.LEAD_TIME_HOURS ?? 3);
+const BOOKING_WINDOW_DAYS = 14; // até onde procurar dias úteis
+
+// Partes de data/hora no fuso do atendimento
+export function zonedParts(date: Date) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: SCHEDULE_TZ, hourCycle: "h23",
+    year: "numeric", month: "2-digit", day: "2-digit", hour: "2-digit", minute: "2-digit", second: "2-digit",
+  }).formatToParts(date);
+  const get = (t: string) => Number(parts.find((p) => p.type === t)?.value);
+  return { year: get("year"), month: get("month"), day: get("day"), hour: get("hour"), minute: get("minute"), second: get("second") };
+}
+export const pad2 = (n: number) => String(n).padStart(2, "0");
+export function localDayISO(date = new Date()) {
+  const p = zonedParts(date);
+  return `${p.year}-${pad2(p.month)}-${pad2(p.day)}`;
+}
+export function addDaysISO(dayISO: string, n: number) {
+  const d = new Date(`${dayISO}T12:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + n);
+  return d.toISOString().slice(0, 10);
+}
+// "2025-09-16" + "14:00" no fuso do atendimento -> instante UTC
+export function slotInstant(dayISO: string, time: string): Date {
+  const [y, m, d] = dayISO.split("-").map(Number);
+  const [hh, mm] = time.split(":").map(Number);
+  const guess = Date.UTC(y, m - 1, d, hh, mm);
+  const p = zonedParts(new Date(guess));
+  const offset = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - guess;
+  return new Date(guess - offset);
+}
+export function isWorkingDay(dayISO: string) {
+  const weekday = new Date(`${dayISO}T12:00:00Z`).getUTCDay();
+  if (NON_WORKING_WEEKDAYS.includes(weekday)) return false;
+  return !HOLIDAYS.has(dayISO) && !HOLIDAYS.has(dayISO.slice(5));
+}
+// restrições extras por tipo de item (ver catalog.ts)
+export type SlotRules = { weekdays?: number[]; times?: string[] };
+
+export function isBookable(dayISO: string, time: string, rules: SlotRules = {}, now = new Date()) {
+  if (!TIME_SLOTS.includes(time) || !isWorkingDay(dayISO)) return false;
+  if (rules.times && !rules.times.includes(time)) return false;
+  if (rules.weekdays && !rules.weekdays.includes(new Date(`${dayISO}T12:00:00Z`).getUTCDay())) return false;
+  return slotInstant(dayISO, time).getTime() - now.getTime() >= LEAD_TIME_HOURS * 3600_000;
+}
+export function bookableTimes(dayISO: string, rules: SlotRules = {}, now = new Date()) {
+  return TIME_SLOTS.filter((t) => isBookable(dayISO, t, rules, now));
+}
+// Data "AAAA-MM-DD" formatada sem deslocamento de fuso, no idioma do cidadão
+export function formatDay(dayISO: string, opts: Intl.DateTimeFormatOptions = { dateStyle: "medium" }, locale: Locale = "pt-BR") {
+  return new Intl.DateTimeFormat(locale, { ...opts, timeZone: "UTC" }).format(new Date(`${dayISO}T12:00:00Z`));
+}
+export function nextDays(n = 7, rules: SlotRules = {}, now = new Date(), locale: Locale = "pt-BR") {
+  const out: { iso: string; label: string }[] = [];
+  const today = localDayISO(now);
+  for (let i = 0; i < BOOKING_WINDOW_DAYS && out.length < n; i++) {
+    const iso = addDaysISO(today, i);
+    if (!bookableTimes(iso, rules, now).length) continue;
+    out.push({ iso, label: formatDay(iso, { weekday: "short", day: "2-digit", month: "2-digit" }, locale) });
+  }
+  return out;
+}
@@ -0,0 +1,62 @@
+// api/_lib/catalog.ts — catálogo de itens com regras de descarte, por rótulo do classificador
+import type { SlotRules } from "./calendar.js";
+
+export type SizeClass = "pequeno" | "medio" | "grande";
+export type ServiceMode = "coleta" | "ecoponto";
+
+export type CatalogItem = {
+  hazardous: boolean;   // manuseio/transporte separado
+  size: SizeClass;      // "grande" exige caminhão e retirada no térreo
+  weightKg: number;     // estimativa por unidade
+  modes: ServiceMode[]; // sem "coleta" = só entrega em ecoponto
+  safety?: boolean;     // tem instruções de manuseio (texto por idioma em messages/*)
+  rules?: SlotRules;    // dias/horários em que a coleta é possível
+};
+
+const HAZARD_RULES: SlotRules = { weekdays: [2, 4], times: ["09:00", "11:00"] }; // ter/qui de manhã
+const BULKY_RULES: SlotRules = { times: ["09:00", "11:00", "14:00"] };           // turno do caminhão
+
+export const CATALOG: Record<string, CatalogItem> = {
+  Battery: { hazardous: true, size: "pequeno", weightKg: 0.3, modes: ["coleta", "ecoponto"], safety: true, rules: HAZARD_RULES },
+  Keyboard: { hazardous: false, size: "pequeno", weightKg: 0.8, modes: ["coleta", "ecoponto"] },
+  Microwave: { hazardous: false, size: "medio", weightKg: 12, modes: ["coleta"], safety: true },
+  Mobile: { hazardous: false, size: "pequeno", weightKg: 0.2, modes: ["coleta", "ecoponto"], safety: true },
+  Mouse: { hazardous: false, size: "pequeno", weightKg: 0.1, modes: ["ecoponto"] },
+  PCB: { hazardous: false, size: "pequeno", weightKg: 0.5, modes: ["coleta", "ecoponto"] },
+  Player: { hazardous: false, size: "pequeno", weightKg: 2, modes: ["coleta", "ecoponto"] },
+  Printer: { hazardous: false, size: "medio", weightKg: 7, modes: ["coleta"], safety: true },
+  Television: { hazardous: false, size: "grande", weightKg: 15, modes: ["coleta"], safety: true, rules: BULKY_RULES },
+  "Washing Machine": { hazardous: false, size: "grande", weightKg: 60, modes: ["coleta"], safety: true, rules: BULKY_RULES },
+};
+
+export function catalogItem(label: string): CatalogItem {
+  return CATALOG[label] ?? { hazardous: false, size: "medio", weightKg: 0, modes: ["coleta"] };
+}
+
+export const isBulky = (label: string) => catalogItem(label).size === "grande";
+export const isDropOffOnly = (label: string) => !catalogItem(label).modes.includes("coleta");
+
+// interseção das regras de todos os itens do pedido
+export function cartRules(labels: string[]): SlotRules {
+  const out: SlotRules = {};
+  for (const r of labels.map((l) => catalogItem(l).rules).filter((r): r is SlotRules => !!r)) {
+    if (r.weekdays) out.weekdays = out.weekdays ? out.weekdays.filter((w) => r.weekdays!.includes(w)) : [...r.weekdays];
+    if (r.times) out.times = out.times ? out.times.filter((t) => r.times!.includes(t)) : [...r.times];
+  }
+  return out;
+}
+
+// motivo para não juntar o item ao pedido atual, se houver (texto por idioma em messages/*)
+export type CartConflict = "hazardWithBulky" | "bulkyWithHazard" | "noCommonSlot";
+export function cartConflict(labels: string[], label: string): CartConflict | undefined {
+  const it = catalogItem(label);
+  const others = labels.map(catalogItem);
+  if (it.hazardous && others.some((o) => o.size === "grande")) return "hazardWithBulky";
+  if (it.size === "grande" && others.some((o) => o.hazardous)) return "bulkyWithHazard";
+  const rules = cartRules([...labels, label]);
+  if (rules.weekdays?.length === 0 || rules.times?.length === 0) return "noCommonSlot";
+  return undefined;
+}
+
+export const estimatedWeightKg = (items: { item: { label: string }; qty: number }[]) =>
+  items.reduce((sum, it) => sum + catalogItem(it.item.label).weightKg * it.qty, 0);
@@ -0,0 +1,93 @@
+// api/_lib/cep.ts — consulta de CEP com vários provedores, em ordem, e cache no Store
+import axios from "axios";
+import { store } from "./store.js";
+import { onlyDigits } from "./format.js";
+import type { Address } from "./types.js";
+
+// null = CEP inexistente (resposta definitiva); exceção = provedor indisponível
+export type CepProvider = {
+  name: string;
+  lookup(cep: string, timeoutMs: number): Promise<Address | null>;
+};
+
+const blank = (s?: string) => (s && s.trim()) || undefined; // CEP genérico vem com "" em rua/bairro
+
+// ---------- adaptadores ----------
+export function viaCepProvider(url = "https://viacep.com.br/ws"): CepProvider {
+  return {
+    name: "viacep",
+    async lookup(cep, timeoutMs) {
+      const { data } = await axios.get(`${url}/${cep}/json/`, { timeout: timeoutMs });
+      if (data?.erro) return null;
+      return {
+        cep: data.cep, logradouro: blank(data.logradouro), bairro: blank(data.bairro),
+        localidade: data.localidade, uf: data.uf, complemento: blank(data.complemento),
+      };
+    },
+  };
+}
+
+// formato BrasilAPI /api/cep/v1/{cep}: { cep, state, city, neighborhood, street }; 404 = inexistente
+export function brasilApiProvider(url = "https://brasilapi.com.br/api/cep/v1"): CepProvider {
+  return {
+    name: "brasilapi",
+    async lookup(cep, timeoutMs) {
+      const r = await axios.get(`${url}/${cep}`, { timeout: timeoutMs, validateStatus: (s) => s < 500 });
+      if (r.status === 404) return null;
+      if (r.status !== 200) throw new Error(`brasilapi HTTP ${r.status}`);
+      const d = r.data;
+      return {
+        cep: String(d.cep).replace(/^(\d{5})(\d{3})$/, "$1-$2"),
+        logradouro: blank(d.street), bairro: blank(d.neighborhood), localidade: d.city, uf: d.state,
+      };
+    },
+  };
+}
+
+// VIACEP_URL / BRASILAPI_URL: instância própria ou espelho (padrão os serviços públicos)
+const PROVIDERS: Record<string, (env: NodeJS.ProcessEnv) => CepProvider> = {
+  viacep: (env) => viaCepProvider(env.VIACEP_URL || undefined),
+  brasilapi: (env) => brasilApiProvider(env.BRASILAPI_URL || undefined),
+};
+
+// CEP_PROVIDERS: ordem de consulta, separada por vírgula (padrão "viacep,brasilapi")
+export function createCepProviders(env = process.env): CepProvider[] {
+  return (env.CEP_PROVIDERS || "viacep,brasilapi").split(",").map((s) => s.trim()).filter(Boolean).map((name) => {
+    const make = PROVIDERS[name];
+    if (!make) throw new Error(`CEP_PROVIDERS desconhecido: ${name}`);
+    return make(env);
+  });
+}
+
+// ---------- resolução com fallback e cache ----------
+export class CepUnavailableError extends Error {}
+
+// CEP_BUDGET_MS: tempo total entre provedores, abaixo do maxDuration de 10s
+const BUDGET_MS = Number(process.env.CEP_BUDGET_MS ?? 6000);
+const ATTEMPT_MS = 4000;
+const CEP_TTL = 60 * 60 * 24 * 30;      // 30 dias
+const CEP_MISS_TTL = 60 * 60 * 24;      // inexistente: 1 dia
+const cepKey = (cep: string) => `ecoleta:cep:${cep}`;
+
+type Cached = { address: Address | null; provider: string };
+const DEFAULT_PROVIDERS = createCepProviders();
+
+export async function resolveCep(raw: string, providers = DEFAULT_PROVIDERS): Promise<Address | null> {
+  const cep = onlyDigits(raw);
+  const cached = await store.get<Cached>(cepKey(cep));
+  if (cached) return cached.address;
+
+  const deadline = Date.now() + BUDGET_MS;
+  for (const p of providers) {
+    const left = deadline - Date.now();
+    if (left <= 0) break;
+    try {
+      const address = await p.lookup(cep, Math.min(ATTEMPT_MS, left));
+      await store.set<Cached>(cepKey(cep), { address, provider: p.name }, address ? CEP_TTL : CEP_MISS_TTL);
+      return address;
+    } catch (e: any) {
+      console.warn("[CEP] provedor falhou", p.name, cep, e?.code ?? e?.message);
+    }
+  }
+  throw new CepUnavailableError("Nenhum provedor de CEP respondeu.");
+}
@@ -0,0 +1,156 @@
+// api/_lib/classifier.ts — backends de classificação de imagem + cache, retries e circuit breaker
+import axios from "axios";
+import FormData from "form-data";
+import { createHash } from "node:crypto";
+import { store } from "./store.js";
+import { LABEL_PT } from "./format.js";
+import type { Pred } from "./types.js";
+
+export type Classifier = {
+  name: string;
+  classify(bytes: Buffer, topk: number, timeoutMs: number): Promise<Pred[]>;
+};
+
+// ---------- adaptadores ----------
+// multipart/form-data em PREDICT_URL?topk=N -> { topk: Pred[] } (formato original)
+export function httpMultipartClassifier(url: string, apiKey = ""): Classifier {
+  return {
+    name: "http",
+    async classify(bytes, topk, timeoutMs) {
+      const form = new FormData();
+      form.append("file", bytes, { filename: "photo.jpg", contentType: "image/jpeg" });
+      const headers: Record<string, string> = { ...(form.getHeaders?.() || {}) };
+      if (apiKey) headers["X-API-Key"] = apiKey;
+      const { data } = await axios.post(`${url}?topk=${topk}`, form as any, {
+        headers, timeout: timeoutMs, maxBodyLength: Infinity,
+      });
+      return data.topk as Pred[];
+    },
+  };
+}
+
+// JSON { image: <base64>, topk } -> { topk | predictions: Pred[] }
+export function jsonBase64Classifier(url: string, apiKey = ""): Classifier {
+  return {
+    name: "json",
+    async classify(bytes, topk, timeoutMs) {
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+      if (apiKey) headers["X-API-Key"] = apiKey;
+      const { data } = await axios.post(url, { image: bytes.toString("base64"), topk }, { headers, timeout: timeoutMs });
+      return (data.topk ?? data.predictions) as Pred[];
+    },
+  };
+}
+
+// Determinístico, sem rede: mesma imagem -> mesma resposta (desenvolvimento e testes)
+export function stubClassifier(): Classifier {
+  const labels = Object.keys(LABEL_PT);
+  return {
+    name: "stub",
+    async classify(bytes, topk) {
+      const h = createHash("sha256").update(bytes).digest();
+      const start = h[0] % labels.length;
+      const top = 0.3 + (h[1] / 255) * 0.69; // 0.30 .. 0.99
+      return Array.from({ length: Math.min(topk, labels.length) }, (_, i) => ({
+        label: labels[(start + i) % labels.length],
+        score: Number((i === 0 ? top : (1 - top) / (i + 1)).toFixed(4)),
+      }));
+    },
+  };
+}
+
+// CLASSIFIER=http (padrão) | json | stub
+export function createClassifier(env = process.env): Classifier {
+  const kind = env.CLASSIFIER || "http";
+  if (kind === "stub") return stubClassifier();
+  if (!env.PREDICT_URL) throw new Error("PREDICT_URL ausente");
+  if (kind === "json") return jsonBase64Classifier(env.PREDICT_URL, env.API_KEY);
+  if (kind === "http") return httpMultipartClassifier(env.PREDICT_URL, env.API_KEY);
+  throw new Error(`CLASSIFIER desconhecido: ${kind}`);
+}
+
+// ---------- cache, retries e circuit breaker ----------
+export class CircuitOpenError extends Error {}
+
+// imagem identificada pelo file_unique_id do Telegram; os bytes só são baixados sem cache
+export type ImageRef = { key: string; load: () => Promise<Buffer> };
+
+// CLASSIFY_BUDGET_MS: tempo total (download + tentativas), abaixo do maxDuration de 10s
+const BUDGET_MS = Number(process.env.CLASSIFY_BUDGET_MS ?? 7000);
+const MIN_ATTEMPT_MS = 1000;
+const CACHE_TTL = 60 * 60 * 24 * 30;
+// CB_FAILURES falhas em CB_WINDOW_SEC abrem o circuito por CB_COOLDOWN_SEC
+const CB_FAILURES = Number(process.env.CB_FAILURES ?? 5);
+const CB_WINDOW_SEC = Number(process.env.CB_WINDOW_SEC ?? 60);
+const CB_COOLDOWN_SEC = Number(process.env.CB_COOLDOWN_SEC ?? 60);
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+// rede/timeout, 429 e 5xx valem nova tentativa; 4xx não
+function isTransient(e: any) {
+  if (!axios.isAxiosError(e)) return false;
+  const status = e.response?.status;
+  return status == null || status === 429 || status >= 500;
+}
+
+// lista não vazia de { label, score }; o resto é resposta quebrada do backend
+const isPredList = (preds: unknown): preds is Pred[] =>
+  Array.isArray(preds) && preds.length > 0 && preds.every((p) => typeof p?.label === "string");
+
+export function resilientClassifier(inner: Classifier) {
+  const cacheKey = (key: string) => `ecoleta:cls:${inner.name}:${key}`;
+  const openKey = `ecoleta:cb:${inner.name}:open`;
+  const failKey = `ecoleta:cb:${inner.name}:fails`;
+
+  async function recordFailure() {
+    try {
+      const fails = await store.incr(failKey, 1, CB_WINDOW_SEC);
+      if (fails >= CB_FAILURES) {
+        console.error("[IA] circuito aberto:", fails, "falhas em", CB_WINDOW_SEC, "s");
+        await store.set(openKey, true, CB_COOLDOWN_SEC);
+      }
+    } catch (e) {
+      console.error("[IA] falha ao registrar erro no circuito:", e);
+    }
+  }
+
+  return {
+    name: inner.name,
+
+    async classify(img: ImageRef, topk: number): Promise<Pred[]> {
+      const cached = await store.get<{ topk: number; preds: Pred[] }>(cacheKey(img.key));
+      if (cached && cached.topk >= topk && isPredList(cached.preds)) return cached.preds.slice(0, topk);
+
+      if (await store.get<boolean>(openKey)) throw new CircuitOpenError("classificador indisponível");
+
+      const deadline = Date.now() + BUDGET_MS;
+      let lastErr: unknown;
+      try {
+        const bytes = await img.load();
+        for (let attempt = 1; ; attempt++) {
+          const left = deadline - Date.now();
+          if (left < MIN_ATTEMPT_MS) break;
+          try {
+            const preds = await inner.classify(bytes, topk, left);
+            // resposta fora do formato não é cacheada nem repetida (erro comum, não transitório)
+            if (!isPredList(preds)) throw new Error(`resposta inválida do classificador: ${JSON.stringify(preds)?.slice(0, 200)}`);
+            await Promise.all([
+              store.set(cacheKey(img.key), { topk, preds }, CACHE_TTL),
+              store.del(failKey),
+            ]);
+            return preds;
+          } catch (e) {
+            lastErr = e;
+            if (!isTransient(e)) break;
+            console.warn("[IA] tentativa", attempt, "falhou:", (e as any)?.code || (e as any)?.message);
+            await sleep(Math.min(250 * 2 ** (attempt - 1), Math.max(0, deadline - Date.now() - MIN_ATTEMPT_MS)));
+          }
+        }
+      } catch (e) {
+        lastErr = e; // falha no download
+      }
+      if (isTransient(lastErr)) await recordFailure();
+      throw lastErr ?? new Error("tempo esgotado para classificar");
+    },
+  };
+}
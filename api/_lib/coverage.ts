@@ -0,0 +1,38 @@
+// api/_lib/coverage.ts — área atendida pela coleta (cidades/UFs e faixas de CEP)
+import { onlyDigits } from "./format.js";
+import type { Address } from "./types.js";
+
+// COVERAGE_UFS: UFs atendidas inteiras, ex.: "SP,RJ"
+// COVERAGE_CITIES: cidades atendidas, "Cidade/UF" separadas por vírgula, ex.: "São Paulo/SP,Campinas/SP"
+// COVERAGE_CEP_RANGES: faixas de CEP "inicio-fim", ex.: "01000000-05999999,08000000-08499999"
+// Sem nenhuma das três, atende qualquer endereço.
+export type Coverage = { ufs: string[]; cities: string[]; cepRanges: [number, number][] };
+
+// minúsculas e sem acento, para comparar nomes de cidade vindos do ViaCEP
+export const normalizePlace = (s: string) =>
+  (s || "").normalize("NFD").replace(/[\u0300-\u036f]/g, "").trim().toLowerCase();
+
+const list = (s?: string) => (s || "").split(",").map((x) => x.trim()).filter(Boolean);
+
+export function parseCoverage(env = process.env): Coverage {
+  const cepRanges = list(env.COVERAGE_CEP_RANGES).map((r) => {
+    const [a, b = a] = r.split("-").map((x) => Number(onlyDigits(x)));
+    return [Math.min(a, b), Math.max(a, b)] as [number, number];
+  });
+  return {
+    ufs: list(env.COVERAGE_UFS).map((u) => u.toUpperCase()),
+    cities: list(env.COVERAGE_CITIES).map(normalizePlace),
+    cepRanges,
+  };
+}
+
+const COVERAGE = parseCoverage();
+
+export function isCovered(a: Address, cov: Coverage = COVERAGE) {
+  if (!cov.ufs.length && !cov.cities.length && !cov.cepRanges.length) return true;
+  const uf = (a.uf || "").toUpperCase();
+  if (uf && cov.ufs.includes(uf)) return true;
+  if (a.localidade && cov.cities.includes(normalizePlace(`${a.localidade}/${uf}`))) return true;
+  const cep = Number(onlyDigits(a.cep || ""));
+  return !!cep && cov.cepRanges.some(([from, to]) => cep >= from && cep <= to);
+}
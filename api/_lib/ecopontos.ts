@@ -0,0 +1,105 @@
+// api/_lib/ecopontos.ts — pontos de entrega voluntária (ecopontos) e busca dos mais próximos
+import { readFileSync } from "node:fs";
+import { normalizePlace } from "./coverage.js";
+import { itemName, onlyDigits } from "./format.js";
+import { DEFAULT_LOCALE, formatNumber, t } from "./i18n.js";
+import type { Locale } from "./types.js";
+
+export type Ecoponto = {
+  name: string;
+  address: string;     // logradouro, número e bairro
+  localidade: string;
+  uf: string;
+  cep: string;
+  lat: number;
+  lng: number;
+  hours: string;
+  accepts: string[];   // rótulos do classificador
+};
+
+const ALL = ["Battery", "Keyboard", "Microwave", "Mobile", "Mouse", "PCB", "Player", "Printer", "Television", "Washing Machine"];
+const SMALL = ["Battery", "Keyboard", "Mobile", "Mouse", "PCB", "Player"];
+
+const DEFAULT_ECOPONTOS: Ecoponto[] = [
+  {
+    name: "Ecoponto Vila Mariana", address: "Rua Dr. Diogo de Faria, 1100 — Vila Clementino",
+    localidade: "São Paulo", uf: "SP", cep: "04037-003", lat: -23.5958, lng: -46.6419,
+    hours: "seg–sáb 6h–22h, dom/feriados 6h–18h", accepts: ALL,
+  },
+  {
+    name: "Ecoponto Pinheiros", address: "Rua Paes Leme, 350 — Pinheiros",
+    localidade: "São Paulo", uf: "SP", cep: "05424-010", lat: -23.5671, lng: -46.6985,
+    hours: "seg–sáb 6h–22h, dom/feriados 6h–18h", accepts: ALL,
+  },
+  {
+    name: "Ecoponto Tatuapé", address: "Rua Melo Peixoto, 300 — Tatuapé",
+    localidade: "São Paulo", uf: "SP", cep: "03070-000", lat: -23.5395, lng: -46.5762,
+    hours: "seg–sáb 6h–22h, dom/feriados 6h–18h", accepts: ["Keyboard", "Microwave", "Mobile", "Mouse", "PCB", "Player", "Printer", "Television"],
+  },
+  {
+    name: "Ecoponto Santana", address: "Av. Cruzeiro do Sul, 2630 — Santana",
+    localidade: "São Paulo", uf: "SP", cep: "02031-000", lat: -23.5026, lng: -46.6254,
+    hours: "seg–sáb 6h–22h, dom/feriados 6h–18h", accepts: SMALL,
+  },
+  {
+    name: "PEV Centro — Campinas", address: "Rua Dr. Quirino, 1500 — Centro",
+    localidade: "Campinas", uf: "SP", cep: "13015-082", lat: -22.9035, lng: -47.0599,
+    hours: "seg–sex 8h–17h, sáb 8h–12h", accepts: SMALL,
+  },
+];
+
+// ECOPONTOS_FILE: JSON com a lista de ecopontos (mesmo formato de Ecoponto); padrão = lista embutida
+function loadEcopontos(path = process.env.ECOPONTOS_FILE): Ecoponto[] {
+  if (!path) return DEFAULT_ECOPONTOS;
+  try {
+    return JSON.parse(readFileSync(path, "utf8")) as Ecoponto[];
+  } catch (e) {
+    console.error("[ECOPONTOS] falha ao ler", path, e);
+    return DEFAULT_ECOPONTOS;
+  }
+}
+export const ECOPONTOS = loadEcopontos();
+
+// ponto de referência: coordenadas (quando houver) ou CEP/cidade
+export type Origin = { cep?: string; localidade?: string; uf?: string; lat?: number; lng?: number };
+
+export function distanceKm(a: { lat: number; lng: number }, b: { lat: number; lng: number }) {
+  const rad = (x: number) => (x * Math.PI) / 180;
+  const dLat = rad(b.lat - a.lat), dLng = rad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(rad(a.lat)) * Math.cos(rad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.asin(Math.sqrt(h));
+}
+
+const coords = (o: Origin) => (o.lat != null && o.lng != null ? { lat: o.lat, lng: o.lng } : undefined);
+
+// Sem coordenadas, aproxima pela cidade e pela proximidade numérica do CEP (CEPs seguem a geografia)
+function rank(p: Ecoponto, o: Origin) {
+  const c = coords(o);
+  if (c) return distanceKm(c, p);
+  const sameCity = !!o.localidade && normalizePlace(o.localidade) === normalizePlace(p.localidade);
+  const cep = Number(onlyDigits(o.cep || ""));
+  const cepGap = cep ? Math.abs(cep - Number(onlyDigits(p.cep))) / 1e8 : 1;
+  return (sameCity ? 0 : o.uf && o.uf === p.uf ? 1 : 2) + cepGap;
+}
+
+// labels: itens do pedido; mantém só ecopontos que aceitam ao menos um deles
+export function nearestEcopontos(origin: Origin = {}, labels: string[] = [], limit = 3) {
+  const c = coords(origin);
+  return ECOPONTOS
+    .filter((p) => !labels.length || labels.some((l) => p.accepts.includes(l)))
+    .map((p) => ({ p, r: rank(p, origin) }))
+    .sort((a, b) => a.r - b.r)
+    .slice(0, limit)
+    .map(({ p }) => ({ ...p, distanceKm: c ? distanceKm(c, p) : undefined }));
+}
+
+export function formatEcoponto(p: Ecoponto & { distanceKm?: number }, labels: string[] = [], locale: Locale = DEFAULT_LOCALE) {
+  const accepts = labels.length ? p.accepts.filter((l) => labels.includes(l)) : p.accepts;
+  const km = p.distanceKm != null ? formatNumber(p.distanceKm, locale, { maximumFractionDigits: 1 }) : undefined;
+  return [
+    `📍 *${p.name}*${km ? ` (~${km} km)` : ""}`,
+    `${p.address} • ${p.localidade}/${p.uf}`,
+    `🕒 ${p.hours}`,
+    `♻️ ${t(locale).accepts}: ${accepts.map((l) => itemName(l, locale)).join(", ")}`,
+  ].join("\n");
+}
@@ -0,0 +1,134 @@
+// api/_lib/flow.ts — máquina de estados da conversa: passos, transições declaradas e guardas
+// Sem grammY: só o rascunho entra e sai, então dá para verificar o fluxo fora do Telegram.
+import { isBookable, type SlotRules } from "./calendar.js";
+import { isBulky } from "./catalog.js";
+import type { Access, Address, CartItem, GeoPoint, Pred, Schedule, UserInfo } from "./types.js";
+
+export type Step =
+  | "consent" | "name" | "cpf" | "phone"
+  | "await_photo" | "await_confirm" | "await_qty" | "await_more" | "await_cep" | "await_location" | "await_street" | "await_manual_address" | "await_number" | "await_access" | "await_day" | "await_time"
+  | "review" | "confirming" | "done";
+
+export type Draft = {
+  schema?: number; // versão do formato (ver DRAFT_MIGRATIONS)
+  step?: Step;
+  consentAt?: string; // aceite LGPD antes de coletar dados pessoais
+  user?: UserInfo;
+  item?: Pred;      // item em confirmação/quantidade
+  qty?: number;
+  items?: CartItem[]; // itens já confirmados no carrinho
+  predicted?: Pred[]; // top-k do modelo para a foto atual
+  address?: Address;
+  location?: GeoPoint; // localização compartilhada no lugar do CEP
+  access?: Access; // só para itens volumosos
+  schedule?: Schedule;
+  latestFileId?: string;
+  latestFileUniqueId?: string; // chave do cache de classificação
+  reschedule?: string; // protocolo do pedido sendo reagendado
+  editing?: boolean;   // veio da revisão: ao concluir o passo, volta para ela
+  claimedAt?: string;  // quando o passo "confirming" foi travado (ver CLAIM_STALE_MS)
+};
+
+export class FlowError extends Error {}
+
+export const cartLabels = (items?: CartItem[]) => (items || []).map((it) => it.item.label);
+// CEP genérico (cidade pequena): provedores devolvem rua/bairro vazios
+export const missingStreet = (a: Address) => [!a.logradouro && "rua", !a.bairro && "bairro"].filter(Boolean) as string[];
+
+// ---------- guardas: o que o rascunho precisa ter para estar em cada passo ----------
+const hasConsent = (d: Draft) => !!d.consentAt;
+const hasProfile = (d: Draft) => hasConsent(d) && !!(d.user?.name && d.user.cpf && d.user.phone);
+const hasCart = (d: Draft) => hasProfile(d) && !!d.items?.length;
+const hasPlace = (d: Draft) => hasCart(d) && !!d.address?.localidade;
+const hasAddress = (d: Draft) => hasPlace(d) && !missingStreet(d.address!).length && !!d.address!.numero;
+const needsAccess = (d: Draft) => cartLabels(d.items).some(isBulky);
+const isComplete = (d: Draft) =>
+  hasAddress(d) && (!needsAccess(d) || !!d.access) && !!(d.schedule?.day && d.schedule.time);
+
+type StepSpec = { next: Step[]; guard?: (d: Draft) => boolean };
+
+// Transições declaradas (passo atual -> próximos), incluindo os botões "Voltar" e a edição a partir da revisão.
+// Fora da tabela, valem sempre (com a guarda do destino):
+// - foto nova (await_confirm) em qualquer passo depois do cadastro;
+// - início de reagendamento (await_day com reschedule);
+// - retomada de uma edição (continueFlow), que só avança para o primeiro passo pendente.
+// "confirming" trava o rascunho enquanto a vaga é reservada e o pedido gravado (ou reagendado); se algo falhar, volta à revisão ou aos horários.
+// /start, /cancel, perfil salvo e pedido gravado recomeçam o rascunho inteiro (setDraft) e não passam por aqui.
+export const FLOW: Record<Step, StepSpec> = {
+  consent: { next: ["name"] },
+  name: { next: ["cpf"], guard: hasConsent },
+  cpf: { next: ["phone"], guard: (d) => hasConsent(d) && !!d.user?.name },
+  phone: { next: ["await_photo"], guard: (d) => hasConsent(d) && !!(d.user?.name && d.user.cpf) },
+  await_photo: { next: ["await_confirm"], guard: hasProfile },
+  await_confirm: { next: ["await_qty", "await_more", "await_photo"], guard: (d) => hasProfile(d) && !!d.latestFileId },
+  await_qty: { next: ["await_more", "await_confirm"], guard: (d) => hasProfile(d) && !!d.item },
+  await_more: { next: ["await_photo", "await_qty", "await_cep"], guard: hasCart },
+  await_cep: {
+    next: ["await_more", "await_location", "await_street", "await_manual_address", "await_number", "await_access", "await_day"],
+    guard: hasCart,
+  },
+  await_location: { next: ["await_more", "await_cep", "await_street", "await_number"], guard: hasPlace },
+  await_street: { next: ["await_cep", "await_number"], guard: hasPlace },
+  await_manual_address: { next: ["await_more", "await_cep", "await_access", "await_day"], guard: (d) => hasCart(d) && !!d.address?.cep },
+  await_number: { next: ["await_cep", "await_access", "await_day"], guard: hasPlace },
+  await_access: { next: ["await_number", "await_day"], guard: (d) => hasAddress(d) && needsAccess(d) },
+  await_day: {
+    next: ["await_number", "await_access", "await_time"],
+    guard: (d) => !!d.reschedule || (hasAddress(d) && (!needsAccess(d) || !!d.access)),
+  },
+  await_time: { next: ["await_day", "review", "confirming"], guard: (d) => !!d.schedule?.day },
+  review: {
+    next: ["name", "cpf", "phone", "await_photo", "await_cep", "await_number", "await_access", "await_day", "await_time", "confirming"],
+    guard: isComplete,
+  },
+  confirming: { next: ["review", "await_time", "done"], guard: (d) => !!d.reschedule || isComplete(d) },
+  done: { next: [] },
+};
+const ORDER = Object.keys(FLOW) as Step[];
+
+// motivo da recusa, ou undefined se a mudança de passo é permitida
+export function checkTransition(from: Draft, to: Draft): string | undefined {
+  if (!to.step || from.step === to.step) return undefined;
+  const declared = !from.step
+    || FLOW[from.step].next.includes(to.step)
+    || to.step === "await_confirm"
+    || (to.step === "await_day" && !!to.reschedule)
+    || (!!from.editing && ORDER.indexOf(to.step) > ORDER.indexOf(from.step));
+  if (!declared) return `transição não declarada: ${from.step} -> ${to.step}`;
+  if (FLOW[to.step].guard && !FLOW[to.step].guard!(to)) return `guarda de ${to.step} recusou o rascunho`;
+  return undefined;
+}
+
+// primeiro passo ainda incompleto do pedido; "review" quando está tudo preenchido
+export function pendingStep(d: Draft, rules: SlotRules = {}): Step {
+  if (!d.user?.name) return "name";
+  if (!d.user.cpf) return "cpf";
+  if (!d.user.phone) return "phone";
+  if (!d.items?.length) return "await_photo";
+  const a = d.address;
+  if (!a?.localidade) return "await_cep";
+  if (missingStreet(a).length) return "await_street";
+  if (!a.numero) return "await_number";
+  if (needsAccess(d) && !d.access) return "await_access";
+  const s = d.schedule;
+  if (!s?.day || !s.time || !isBookable(s.day, s.time, rules)) return "await_day";
+  return "review";
+}
+
+// passo que recebe o texto digitado: o dado pessoal que faltar tem prioridade sobre o passo atual
+export function inputStep(d: Draft): Step | undefined {
+  if (d.step === "consent" || !d.consentAt) return "consent";
+  if (d.step === "name" || !d.user?.name) return "name";
+  if (d.step === "cpf" || !d.user.cpf) return "cpf";
+  if (d.step === "phone" || !d.user.phone) return "phone";
+  return d.step;
+}
+
+// o que falta antes de classificar uma foto (a foto fica guardada até lá)
+export function photoGap(d: Draft): "consent" | "name" | "cpf" | "phone" | undefined {
+  if (!d.consentAt) return "consent";
+  if (!d.user?.name) return "name";
+  if (!d.user.cpf) return "cpf";
+  if (!d.user.phone) return "phone";
+  return undefined;
+}
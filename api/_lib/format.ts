@@ -0,0 +1,57 @@
+// api/_lib/format.ts — rótulos e formatação compartilhados
+import type { Address, Locale } from "./types.js";
+
+// ---------- nomes dos itens por idioma (rótulos do classificador) ----------
+export const ITEM_NAMES: Record<Locale, Record<string, string>> = {
+  "pt-BR": {
+    Battery: "Bateria",
+    Keyboard: "Teclado",
+    Microwave: "Micro-ondas",
+    Mobile: "Celular",
+    Mouse: "Mouse",
+    PCB: "Placa de circuito",
+    Player: "Reprodutor",
+    Printer: "Impressora",
+    Television: "Televisão",
+    "Washing Machine": "Máquina de lavar",
+  },
+  en: {
+    Battery: "Battery",
+    Keyboard: "Keyboard",
+    Microwave: "Microwave",
+    Mobile: "Mobile phone",
+    Mouse: "Mouse",
+    PCB: "Circuit board",
+    Player: "Media player",
+    Printer: "Printer",
+    Television: "Television",
+    "Washing Machine": "Washing machine",
+  },
+  es: {
+    Battery: "Batería",
+    Keyboard: "Teclado",
+    Microwave: "Microondas",
+    Mobile: "Celular",
+    Mouse: "Ratón",
+    PCB: "Placa de circuito",
+    Player: "Reproductor",
+    Printer: "Impresora",
+    Television: "Televisor",
+    "Washing Machine": "Lavadora",
+  },
+};
+export const LABEL_PT = ITEM_NAMES["pt-BR"];
+export const itemName = (label: string, locale: Locale = "pt-BR") => ITEM_NAMES[locale]?.[label] ?? LABEL_PT[label] ?? label;
+export const toPT = (en: string) => itemName(en, "pt-BR");
+
+export const onlyDigits = (s: string) => (s || "").replace(/\D/g, "");
+export function formatAddressPT(a: Address) {
+  const parts = [
+    a.logradouro && a.numero ? `${a.logradouro}, ${a.numero}` : a.logradouro,
+    a.bairro,
+    a.localidade && a.uf ? `${a.localidade}/${a.uf}` : (a.localidade || a.uf),
+    a.complemento,
+    a.cep && `CEP ${a.cep}`,
+  ].filter(Boolean) as string[];
+  return parts.join(" • ");
+}
@@ -0,0 +1,40 @@
+// api/_lib/funnel.ts — funil diário de conversão: até onde cada chat chegou no fluxo
+import { store } from "./store.js";
+import { localDayISO } from "./calendar.js";
+
+// caminho principal do fluxo; passos opcionais (rua, endereço digitado, localização, acesso) ficam de fora
+export const FUNNEL = [
+  "name", "cpf", "phone", "await_photo", "await_confirm", "await_qty", "await_more",
+  "await_cep", "await_number", "await_day", "await_time", "review", "done",
+] as const;
+
+const FUNNEL_TTL = 60 * 60 * 24 * 90; // 90 dias
+const stageKey = (dayISO: string, stage: string) => `ecoleta:funnel:${dayISO}:${stage}`;
+const chatKey = (dayISO: string, chatId: number) => `ecoleta:funnel:${dayISO}:chat:${chatId}`;
+
+// Conta cada chat uma vez por passo e por dia. Chegar a um passo conta também os anteriores
+// (quem usa o perfil salvo pula nome/CPF/telefone; endereço salvo pula o número).
+export async function recordFunnel(chatId: number, step?: string, now = new Date()) {
+  const idx = FUNNEL.indexOf(step as (typeof FUNNEL)[number]);
+  if (idx < 0) return;
+  const day = localDayISO(now);
+  try {
+    const { value: reached = -1, version } = await store.getVersioned<number>(chatKey(day, chatId));
+    if (idx <= reached) return;
+    // em conflito outra invocação já está registrando este chat
+    if (!(await store.setVersioned(chatKey(day, chatId), idx, version, FUNNEL_TTL))) return;
+    await Promise.all(FUNNEL.slice(reached + 1, idx + 1).map((s) => store.incr(stageKey(day, s), 1, FUNNEL_TTL)));
+  } catch (e) {
+    console.error("[FUNNEL] falha ao registrar", chatId, step, e);
+  }
+}
+
+// chats por passo no dia e quantos pararam em cada um (não chegaram ao passo seguinte)
+export async function funnelReport(dayISO: string) {
+  const counts = (await Promise.all(FUNNEL.map((s) => store.get<number>(stageKey(dayISO, s))))).map((n) => Number(n) || 0);
+  return FUNNEL.map((step, i) => ({
+    step,
+    count: counts[i],
+    dropped: i < FUNNEL.length - 1 ? Math.max(0, counts[i] - counts[i + 1]) : 0,
+  }));
+}
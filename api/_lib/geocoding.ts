@@ -0,0 +1,64 @@
+// api/_lib/geocoding.ts — geocodificação reversa (localização compartilhada -> endereço)
+import axios from "axios";
+import { distanceKm } from "./ecopontos.js";
+import type { Address, GeoPoint } from "./types.js";
+
+export type Geocoder = {
+  name: string;
+  reverse(p: GeoPoint, timeoutMs: number): Promise<Address | undefined>;
+};
+
+// ---------- adaptadores ----------
+// Nominatim (OpenStreetMap) /reverse; a política de uso exige User-Agent identificável
+export function nominatimGeocoder(url = "https://nominatim.openstreetmap.org", userAgent = "ecoleta-telebot"): Geocoder {
+  return {
+    name: "nominatim",
+    async reverse(p, timeoutMs) {
+      const { data } = await axios.get(`${url}/reverse`, {
+        params: { format: "jsonv2", lat: p.lat, lon: p.lng, addressdetails: 1, "accept-language": "pt-BR" },
+        headers: { "User-Agent": userAgent },
+        timeout: timeoutMs,
+      });
+      const a = data?.address;
+      if (!a || a.country_code !== "br") return undefined;
+      return {
+        cep: a.postcode,
+        logradouro: a.road,
+        bairro: a.suburb ?? a.neighbourhood ?? a.quarter,
+        localidade: a.city ?? a.town ?? a.village ?? a.municipality,
+        uf: String(a["ISO3166-2-lvl4"] || "").replace(/^BR-/, "") || undefined,
+        numero: a.house_number,
+      };
+    },
+  };
+}
+
+// Sem rede: endereço do ponto de referência mais próximo (desenvolvimento e testes)
+export type GeoFixture = GeoPoint & { address: Address };
+const LOCAL_FIXTURES: GeoFixture[] = [
+  { lat: -23.5503, lng: -46.6339, address: { cep: "01001-000", logradouro: "Praça da Sé", bairro: "Sé", localidade: "São Paulo", uf: "SP" } },
+  { lat: -23.5614, lng: -46.6559, address: { cep: "01310-100", logradouro: "Avenida Paulista", bairro: "Bela Vista", localidade: "São Paulo", uf: "SP" } },
+  { lat: -23.5671, lng: -46.6985, address: { cep: "05424-010", logradouro: "Rua Paes Leme", bairro: "Pinheiros", localidade: "São Paulo", uf: "SP" } },
+  { lat: -22.9035, lng: -47.0599, address: { cep: "13015-082", logradouro: "Rua Dr. Quirino", bairro: "Centro", localidade: "Campinas", uf: "SP" } },
+  { lat: -22.9068, lng: -43.1729, address: { cep: "20010-020", logradouro: "Rua Primeiro de Março", bairro: "Centro", localidade: "Rio de Janeiro", uf: "RJ" } },
+];
+export function localGeocoder(fixtures = LOCAL_FIXTURES, maxKm = 5): Geocoder {
+  return {
+    name: "local",
+    async reverse(p) {
+      const best = fixtures
+        .map((f) => ({ f, km: distanceKm(p, f) }))
+        .sort((a, b) => a.km - b.km)[0];
+      return best && best.km <= maxKm ? { ...best.f.address } : undefined;
+    },
+  };
+}
+
+// GEOCODER=nominatim (padrão) | local
+// GEOCODER_URL: instância própria do Nominatim; GEOCODER_USER_AGENT: identificação exigida pelo serviço
+export function createGeocoder(env = process.env): Geocoder {
+  const kind = env.GEOCODER || "nominatim";
+  if (kind === "local") return localGeocoder();
+  if (kind === "nominatim") return nominatimGeocoder(env.GEOCODER_URL || undefined, env.GEOCODER_USER_AGENT || undefined);
+  throw new Error(`GEOCODER desconhecido: ${kind}`);
+}
@@ -0,0 +1,42 @@
+// api/_lib/http.ts — autenticação e parâmetros das rotas REST
+import { timingSafeEqual } from "node:crypto";
+import { MAX_RANGE_DAYS, type OrderFilter } from "./orders.js";
+import type { OrderStatus } from "./types.js";
+import { addDaysISO, localDayISO } from "./calendar.js";
+
+const ORDER_STATUSES: OrderStatus[] = ["agendado", "confirmado", "coletado", "ausente", "cancelado"];
+export const isOrderStatus = (s: unknown): s is OrderStatus => ORDER_STATUSES.includes(s as OrderStatus);
+
+// Authorization: Bearer <segredo da env>; responde 401/503 e retorna false quando negado
+export function requireBearer(req: any, res: any, envName = "DASHBOARD_TOKEN"): boolean {
+  const expected = process.env[envName];
+  if (!expected) {
+    res.status(503).json({ ok: false, error: `${envName} não configurado` });
+    return false;
+  }
+  const got = String(req.headers?.authorization || "").replace(/^Bearer\s+/i, "");
+  const a = Buffer.from(got), b = Buffer.from(expected);
+  if (a.length !== b.length || !timingSafeEqual(a, b)) {
+    res.status(401).json({ ok: false, error: "não autorizado" });
+    return false;
+  }
+  return true;
+}
+
+const isDay = (s: unknown): s is string => typeof s === "string" && /^\d{4}-\d{2}-\d{2}$/.test(s);
+
+// ?from=AAAA-MM-DD&to=AAAA-MM-DD&status=agendado,confirmado&localidade=...&label=...
+export function parseOrderFilter(q: Record<string, any> = {}): OrderFilter | { error: string } {
+  const from = q.from || localDayISO();
+  const to = q.to || from;
+  if (!isDay(from) || !isDay(to) || from > to) return { error: "from/to inválidos (AAAA-MM-DD)" };
+  if (to > addDaysISO(from, MAX_RANGE_DAYS - 1)) return { error: `intervalo máximo de ${MAX_RANGE_DAYS} dias` };
+  const status = q.status ? String(q.status).split(",").map((s) => s.trim()) : undefined;
+  if (status && !status.every(isOrderStatus)) return { error: `status deve ser um de: ${ORDER_STATUSES.join(", ")}` };
+  return {
+    from, to,
+    status: status as OrderStatus[] | undefined,
+    localidade: q.localidade ? String(q.localidade) : undefined,
+    label: q.label ? String(q.label) : undefined,
+  };
+}
@@ -0,0 +1,48 @@
+// api/_lib/i18n.ts — idioma do cidadão: catálogo de mensagens, detecção e preferência salva
+import { store } from "./store.js";
+import { ptBR } from "./messages/pt-BR.js";
+import { en } from "./messages/en.js";
+import { es } from "./messages/es.js";
+import type { Locale } from "./types.js";
+
+// pt-BR é a referência: os outros catálogos precisam ter as mesmas chaves
+export type Messages = typeof ptBR;
+
+export const DEFAULT_LOCALE: Locale = "pt-BR";
+const MESSAGES: Record<Locale, Messages> = { "pt-BR": ptBR, en, es };
+export const LOCALES = Object.keys(MESSAGES) as Locale[];
+
+export const t = (l: Locale = DEFAULT_LOCALE) => MESSAGES[l] ?? MESSAGES[DEFAULT_LOCALE];
+export const isLocale = (s?: string): s is Locale => !!s && s in MESSAGES;
+
+// language_code do Telegram (IETF, ex.: "pt-br", "en-US", "es") -> idioma atendido
+export function localeFromTelegram(code?: string): Locale {
+  const lang = (code || "").toLowerCase().split(/[-_]/)[0];
+  if (lang === "en") return "en";
+  if (lang === "es") return "es";
+  return DEFAULT_LOCALE;
+}
+// "/idioma en", "/idioma español" etc.
+export function parseLocale(arg: string): Locale | undefined {
+  const a = arg.trim().toLowerCase();
+  if (!a) return undefined;
+  if (a.startsWith("pt") || a.startsWith("portu")) return "pt-BR";
+  if (a.startsWith("en") || a.startsWith("ingl")) return "en";
+  if (a.startsWith("es")) return "es";
+  return undefined;
+}
+
+export const formatNumber = (n: number, l: Locale = DEFAULT_LOCALE, opts?: Intl.NumberFormatOptions) =>
+  new Intl.NumberFormat(l, opts).format(n);
+
+// ---------- preferência do usuário (/idioma) ----------
+const LOCALE_TTL = 60 * 60 * 24 * 365; // 1 ano
+export const localeKey = (userId: number) => `ecoleta:locale:${userId}`;
+
+export async function getUserLocale(userId: number): Promise<Locale | undefined> {
+  const l = await store.get<string>(localeKey(userId));
+  return isLocale(l) ? l : undefined;
+}
+export async function setUserLocale(userId: number, l: Locale) {
+  await store.set(localeKey(userId), l, LOCALE_TTL);
+}
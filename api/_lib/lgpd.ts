@@ -0,0 +1,60 @@
+// api/_lib/lgpd.ts — criptografia em repouso e mascaramento (LGPD)
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "node:crypto";
+import { onlyDigits } from "./format.js";
+import type { UserInfo } from "./types.js";
+
+const DATA_ENCRYPTION_KEY = process.env.DATA_ENCRYPTION_KEY!;
+if (!DATA_ENCRYPTION_KEY) throw new Error("DATA_ENCRYPTION_KEY ausente");
+
+// AES-256-GCM; a chave vem de DATA_ENCRYPTION_KEY (qualquer segredo, derivado via SHA-256)
+const ENC_PREFIX = "enc:v1:";
+const dataKey = createHash("sha256").update(DATA_ENCRYPTION_KEY).digest();
+
+export function encrypt(plain: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", dataKey, iv);
+  const ct = Buffer.concat([cipher.update(plain, "utf8"), cipher.final()]);
+  return ENC_PREFIX + [iv, cipher.getAuthTag(), ct].map((b) => b.toString("base64url")).join(":");
+}
+export function decrypt(value: string): string {
+  if (!value.startsWith(ENC_PREFIX)) return value; // dado legado em texto puro
+  const [iv, tag, ct] = value.slice(ENC_PREFIX.length).split(":").map((p) => Buffer.from(p, "base64url"));
+  const decipher = createDecipheriv("aes-256-gcm", dataKey, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ct), decipher.final()]).toString("utf8");
+}
+// CPF e telefone só saem do processo criptografados
+export function sealUser(u?: UserInfo): UserInfo | undefined {
+  if (!u) return u;
+  return {
+    ...u,
+    cpf: u.cpf && (u.cpf.startsWith(ENC_PREFIX) ? u.cpf : encrypt(u.cpf)),
+    phone: u.phone && (u.phone.startsWith(ENC_PREFIX) ? u.phone : encrypt(u.phone)),
+  };
+}
+export function openUser(u?: UserInfo): UserInfo | undefined {
+  if (!u) return u;
+  try {
+    return { ...u, cpf: u.cpf && decrypt(u.cpf), phone: u.phone && decrypt(u.phone) };
+  } catch {
+    console.error("[LGPD] falha ao descriptografar dados do usuário");
+    return { name: u.name };
+  }
+}
+// ex.: 123.456.789-09 -> ***.456.789-**
+export const maskCPF = (cpf?: string) => {
+  const d = onlyDigits(cpf || "");
+  return d.length === 11 ? `***.${d.slice(3, 6)}.${d.slice(6, 9)}-**` : "***";
+};
+// ex.: (11) 98765-4321 -> (11) *****-4321
+export const maskPhone = (phone?: string) => {
+  const d = onlyDigits(phone || "");
+  return d.length >= 10 ? `(${d.slice(0, 2)}) ${"*".repeat(d.length - 6)}-${d.slice(-4)}` : "***";
+};
+// ex.: Maria da Silva -> Maria S.
+export const maskName = (name?: string) => {
+  const parts = (name || "").split(/\s+/).filter((p) => /\p{L}/u.test(p));
+  if (!parts.length) return "***";
+  const initial = parts.length > 1 ? parts[parts.length - 1].match(/\p{L}/u)![0].toUpperCase() : "";
+  return initial ? `${parts[0]} ${initial}.` : parts[0];
+};
@@ -0,0 +1,248 @@
+// api/_lib/messages/en.ts — textos do bot em inglês (mesmas chaves de pt-BR.ts)
+import type { Messages } from "../i18n.js";
+
+export const en: Messages = {
+  languageName: "🇺🇸 English",
+
+  // ---------- geral ----------
+  tooManyActions: "Too many actions in a row. Please wait a minute.",
+  tooManyMessages: "⏳ Too many messages in a short time. Please wait a minute and try again.",
+  tooManyPhotos: "⏳ You sent too many photos in the last hour. Please try again later.",
+  cancelled: "Flow cancelled. Send /start to begin again.",
+  sendStart: "Send /start to begin.",
+  startHint: "Send /start to book a pickup. 😉",
+  fallback: "All right! Follow the instructions above or send /cancel to start over.",
+  help: "Commands: /start, /cancel, /meuspedidos (my orders), /ecopontos (drop-off points), /idioma (language), /meusdados (my data), /apagardados (erase my data).\n" +
+    "Flow: Name → CPF → Phone → Photo/File → Confirmation → Quantity → More items? → CEP → Number → Date/Time → Review.",
+  back: "⬅️ Back",
+  cancel: "Cancel",
+  no: "No",
+
+  // ---------- idioma ----------
+  chooseLanguage: "Choose your language:",
+  languageSet: "Done! I'll speak *English* from now on. 🇺🇸",
+
+  // ---------- LGPD e perfil ----------
+  start: "Hi! I'm the E-Coleta bot ♻️\n\nLet's start with your details.\n\n👉 *What is your full name?*",
+  consent: [
+    "Hi! I'm the E-Coleta bot ♻️",
+    "",
+    "To book a pickup I need your *name, CPF, phone number and address*.",
+    "This data is used only for the pickup, is stored encrypted and you can",
+    "view it with /meusdados or erase it with /apagardados at any time (LGPD).",
+    "",
+    "Do you agree to the use of your data for this purpose?",
+  ].join("\n"),
+  consentYes: "✅ I agree",
+  consentNo: "❌ I don't agree",
+  consentDeclined: "No problem. Without your consent I can't book the pickup. Send /start if you change your mind.",
+  welcomeBack: (name: string) =>
+    `Welcome back, *${name}*! ♻️\n\nMay I use your saved details (CPF and phone) for this booking?`,
+  profileUse: "✅ Use my saved details",
+  profileUpdate: "✏️ Update details",
+  profileLoaded: (name: string) =>
+    `Details loaded, *${name}*! ✅\nNow send a *photo* of the item (or as a *File* for better quality).`,
+  myDataCaption: "This is all the data we keep about you. To erase it, send /apagardados.",
+  eraseConfirm: "⚠️ This erases your profile, drafts and the personal data in your orders. Open orders will be cancelled.\n\nConfirm?",
+  eraseYes: "Yes, erase my data",
+  eraseKept: "OK, nothing was erased.",
+  erased: "🗑️ Your personal data has been erased.",
+
+  // ---------- dados pessoais ----------
+  askName: "Please enter your *full name*.",
+  askCpf: "Please enter your *CPF* (digits only).",
+  askPhone: "Please enter your *phone number with area code* (e.g. 11987654321).",
+  nameThenCpf: "Great! Now enter your *CPF* (digits only).",
+  cpfThenPhone: "Perfect. Enter your *phone number with area code* (e.g. 11987654321).",
+  photoNeedsName: "Before I process the photo, please tell me your *full name*.",
+  photoNeedsCpf: "Now enter your *CPF* (digits only).",
+  invalidCpf: "Invalid CPF. Please try again (digits only).",
+  invalidPhone: "Invalid phone number. Send it with the area code (e.g. 11987654321).",
+  dataSaved: "Details saved! ✅ Now send a *photo* of the item (or as a *File* for better quality).",
+  dataReceived: "Got your details! Now send a *photo* of the item (or a *File* for better quality).",
+
+  // ---------- foto e classificação ----------
+  askPhoto: "Send a *photo* of the item (or as a *File* for better quality).",
+  photoFirst: "Send a *photo* of the item first.",
+  anotherPhoto: "No problem. Send another *photo* of the item (preferably as a *File* for better quality).",
+  nextPhoto: "Sure! Send a *photo* of the next item (or as a *File* for better quality).",
+  newItemPhoto: "Send a *photo* of the new item (or as a *File* for better quality).",
+  imageFileOnly: "Please send an *image file* (JPG/PNG).",
+  aiTimeout: "⏱️ The AI server took too long to respond. Try again or send it as a *File* (uncompressed).",
+  photoFailed: "❌ I couldn't process it. Try sending it as a *File* (uncompressed).",
+  fileFailed: "❌ I couldn't download/process the file. Please try again.",
+  classifierDown: "Automatic recognition is unavailable right now. Choose the item category:",
+  lowConfidence: "I'm not sure what this item is. 🤔\nWhich of these options fits best?",
+  detected: (item: string) => `I detected: *${item}*.\nIs that right?`,
+  confirmItem: (item: string) => `Confirm the item: *${item}*`,
+  confirmYes: (item: string) => `✅ Yes, it's a ${item}`,
+  pickFromList: "📋 No, pick from the list",
+  sendOtherPhotoNo: "❌ No, send another photo",
+  pickOther: "📋 Other / pick from the list",
+  sendOtherPhoto: "📷 Send another photo",
+  chooseCategory: "Choose the item category:",
+  invalidOption: "Invalid option. Send another *photo* of the item.",
+
+  // ---------- catálogo ----------
+  dropOffOnly: (item: string) =>
+    `♻️ *${item}* is not collected at home: take it to a *drop-off point* (see /ecopontos).`,
+  conflict: {
+    hazardWithBulky: (item: string) => `${item} is hazardous material and can't travel in the same truck as bulky items.`,
+    bulkyWithHazard: (item: string) => `${item} is bulky and can't travel together with hazardous materials (e.g. batteries).`,
+    noCommonSlot: (item: string) => `${item} has no pickup day/time in common with the other items.`,
+  },
+  separateOrder: "Place a separate order for this item after finishing the current one.",
+  rejectedSendPhoto: "If you have another item to be collected, send its *photo*.",
+  hazardNote: "☣️ *Warning:*",
+  infoNote: "ℹ️",
+  safety: {
+    Battery: "Cover the terminals with electrical tape, do not puncture or crush it and keep it away from heat and moisture. Swollen or leaking batteries: put them in a plastic bag.",
+    Microwave: "Remove the glass plate and pack it separately.",
+    Mobile: "Wipe your data and remove the SIM and memory cards. If the battery is swollen, let the crew know.",
+    Printer: "Remove the cartridges/toner and take them to a cartridge collection point.",
+    Television: "Do not break the screen. Tube (CRT) models contain lead: handle with care.",
+    "Washing Machine": "Unplug it from power and water, drain the hose and leave the machine dry.",
+  },
+
+  // ---------- quantidade e carrinho ----------
+  itemOk: (item: string) => `OK, *${item}*!`,
+  askQty: "How many units do you want to dispose of?",
+  askQtyFor: (item: string) => `*${item}*: how many units do you want to dispose of?`,
+  typeQty: "Type the *quantity* (whole number):",
+  invalidQty: "Invalid quantity. Send a whole number greater than 0.",
+  added: (line: string) => `Added: *${line}*.`,
+  cartTitle: "🛒 Items for pickup:",
+  askMore: "Do you want to *add another item*?",
+  moreYes: "➕ Add another item",
+  moreNo: "➡️ No, go to the address",
+  cartEmpty: "Your cart is empty. Send a *photo* of an item.",
+  cartEmptied: "Your cart is now empty. Send a *photo* of an item.",
+
+  // ---------- endereço ----------
+  askCep: "Enter your *CEP* (postal code, digits only).",
+  askCepAfterCart: "Now enter your *CEP* (postal code, digits only).",
+  askCepOk: "OK! Enter your *CEP* (postal code, digits only).",
+  orShareLocation: "If you are at the pickup address, you can also send your *location*.",
+  shareLocation: "📍 Send my location",
+  invalidCep: "Invalid CEP. Send 8 digits (e.g. 01001000).",
+  cepLookup: "🔎 Looking up the CEP…",
+  cepNotFound: "CEP not found. Please check it and send again.",
+  cepUnavailable: "⚠️ I couldn't look up the CEP right now.\nType the *full address*:",
+  manualHint: "Street, number, neighborhood, city/state\n(e.g. Rua das Flores, 123 apto 4, Centro, Itu/SP)",
+  manualInvalid: "I couldn't understand the address. Use the format:",
+  retryCep: "🔁 Try the CEP again",
+  useSaved: (addr: string) => `📍 Use ${addr}`,
+  addressFoundByCep: "Address found for the CEP:",
+  addressLabel: "Address:",
+  addressComplete: "Full address:",
+  missingStreet: {
+    both: "The address found has no *street* or *neighborhood*.\nEnter the street and the neighborhood (e.g. Rua das Flores, Centro).",
+    street: "The address found has no *street*.\nEnter the street (e.g. Rua das Flores).",
+    neighborhood: "The address found has no *neighborhood*.\nEnter the neighborhood (e.g. Centro).",
+  },
+  askNumber: "👉 Enter the *house number* (and apartment/unit, if any).",
+  askNumberFound: (n: string) => `👉 Enter the *house number* (I found *${n}*, confirm or correct it) and apartment/unit, if any.`,
+  invalidNumber: "Enter the number (e.g. 123) and, optionally, the unit (e.g. 123, apto 45).",
+
+  // ---------- localização ----------
+  locationNotNow: "Send your location when I ask for the pickup address.",
+  locationReceived: "📍 Location received, looking up the address…",
+  locationUnknown: "I couldn't find the address for this location. Enter your *CEP* (digits only).",
+  locationFound: (addr: string) => `Address found from your location:\n*${addr}*\n\nIs that right?`,
+  locationConfirm: "Confirm the address from your location or type the CEP:",
+  locationOk: "✅ Address is correct",
+  typeCep: "✏️ Type CEP",
+
+  // ---------- área atendida e ecopontos ----------
+  outOfArea: (place: string) => `😕 We don't do pickups in *${place}* yet.\nYou can take your items to a drop-off point:`,
+  otherCep: "If the items are at another address, send another *CEP* or use /cancel.",
+  noEcopontos: "No registered drop-off point accepts these items.",
+  ecopontosFor: (items: string) => `♻️ Drop-off points that accept ${items}:`,
+  ecopontosAll: "♻️ Drop-off points:",
+  ecopontosInvalidCep: "Invalid CEP. Use /ecopontos 01001000",
+  ecopontosCepNotFound: "CEP not found.",
+  accepts: "Accepts",
+
+  // ---------- acesso (itens volumosos) ----------
+  access: { terreo: "🏠 House / ground floor", elevador: "🛗 Apartment with elevator", escada: "🪜 Upper floor, no elevator" },
+  bulkyWhere: "🚚 Your order has a bulky item: the crew picks it up *on the ground floor*.\nWhere is the item?",
+  bulkyPrompt: "🚚 The crew picks up bulky items *on the ground floor*.\nWhere is the item?",
+  bulkyWhereShort: "Where is the bulky item?",
+  groundFloorNote: "👉 At pickup time, leave the item *on the ground floor/lobby*: the crew does not go upstairs.",
+
+  // ---------- agenda ----------
+  chooseDate: "Choose the pickup *date*:",
+  chooseDateNow: "Now choose the pickup *date*:",
+  chooseTime: "Choose a time:",
+  soldOut: "full",
+  backToDays: "Back to days",
+  slotSoldOutToast: "This time is full. Choose another one.",
+  dateUnavailable: "This date is no longer available. Choose another one:",
+  timeUnavailable: (hours: number) => `This time is no longer available (at least ${hours}h in advance). Choose another one:`,
+  reserveFailed: "I couldn't reserve the time right now. Please try again shortly.",
+  justSoldOut: "😕 This time just filled up. Choose another one:",
+
+  // ---------- revisão ----------
+  reviewTitle: "📝 *Review your order:*",
+  reviewQuestion: "Is everything correct?",
+  edit: {
+    name: "✏️ Name", cpf: "✏️ CPF", phone: "✏️ Phone", items: "✏️ Items", address: "✏️ Address",
+    number: "✏️ Number", access: "✏️ Access", schedule: "✏️ Date/Time",
+  },
+  confirmBooking: "✅ Confirm booking",
+  addItem: "📷 Add item",
+  backToReview: "↩️ Back to review",
+  notInReview: "This order is no longer under review. See /meuspedidos.",
+  alreadyRegistered: "This order has already been placed. See /meuspedidos.",
+  stillConfirming: "⏳ Still placing your order. If the confirmation doesn't arrive within 1 minute, tap Confirm again.",
+  lostState: "Almost there! It looks like the server restarted and I lost part of the state.\n\n" +
+    "👉 Send /start to restart quickly, or send the CEP again to resume the current step.",
+  field: {
+    name: "Name", cpf: "CPF", phone: "Phone", items: "Items", weight: "Estimated weight",
+    access: "Access", address: "Address", schedule: "Date/Time", protocol: "Protocol",
+  },
+  at: "at",
+
+  // ---------- pedidos ----------
+  registered: "✅ *Pickup order placed!*",
+  followUp: "Track, cancel or reschedule it with /meuspedidos.",
+  done: "Your order has been placed. Send a new *photo* for another item, or see your orders with /meuspedidos.",
+  noOrders: "You have no pickup orders yet. Send /start to book one. 😉",
+  orderNotFound: "Order not found.",
+  status: {
+    agendado: "🗓️ Scheduled", confirmado: "👍 Confirmed", coletado: "✅ Collected",
+    ausente: "🚪 Nobody home", cancelado: "❌ Cancelled",
+  },
+  reschedule: "🔁 Reschedule",
+  cancelOrder: "❌ Cancel order",
+  cancelShort: "❌ Cancel",
+  confirmPresence: "👍 I'll be there",
+  cancelQuestion: "Confirm the cancellation?",
+  cancelYes: "Yes, cancel",
+  cancelFailed: "This order could not be cancelled.",
+  thanksConfirm: "👍 Thanks for confirming!",
+  confirmFailed: "This order could not be confirmed.",
+  rescheduling: (protocol: string) => `Rescheduling *${protocol}*.\nChoose the new pickup *date*:`,
+  rescheduleFailed: "This order could not be rescheduled.",
+  rescheduled: "🔁 *Order rescheduled!*",
+
+  // ---------- receipt (.ics invite and PDF) ----------
+  receipt: {
+    title: "Pickup confirmation",
+    eventTitle: (protocol: string) => `Electronics pickup — ${protocol}`,
+    scanHint: "Show this QR code to the crew at pickup time.",
+    icsCaption: "📅 Add the pickup to your calendar.",
+    pdfCaption: "🧾 Your receipt. The crew scans the QR code to confirm the pickup.",
+  },
+
+  // ---------- avisos e lembretes (enviados fora da conversa) ----------
+  notice: {
+    confirmado: "👍 Your pickup has been *confirmed* by the crew.",
+    coletado: "✅ Your pickup is *done*. Thank you for disposing of it properly! ♻️",
+    ausente: "🚪 The crew came by but *found nobody there*. Book again with /start.",
+    cancelado: "❌ Your pickup was *cancelled* by the crew. Book again with /start.",
+  },
+  reminder: (when: "vespera" | "dia", date: string, time: string) =>
+    `⏰ Reminder: your pickup is ${when === "vespera" ? "*tomorrow*" : "*today*"}, ${date} at *${time}*.`,
+  willYouBeThere: "Will you be there?",
+};
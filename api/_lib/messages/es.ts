@@ -0,0 +1,248 @@
+// api/_lib/messages/es.ts — textos do bot em espanhol (mesmas chaves de pt-BR.ts)
+import type { Messages } from "../i18n.js";
+
+export const es: Messages = {
+  languageName: "🇪🇸 Español",
+
+  // ---------- geral ----------
+  tooManyActions: "Demasiadas acciones seguidas. Espera un minuto.",
+  tooManyMessages: "⏳ Demasiados mensajes en poco tiempo. Espera un minuto e inténtalo de nuevo.",
+  tooManyPhotos: "⏳ Enviaste demasiadas fotos en la última hora. Inténtalo más tarde.",
+  cancelled: "Flujo cancelado. Envía /start para empezar de nuevo.",
+  sendStart: "Envía /start para empezar.",
+  startHint: "Envía /start para agendar una recolección. 😉",
+  fallback: "¡De acuerdo! Sigue las instrucciones de arriba o envía /cancel para empezar de nuevo.",
+  help: "Comandos: /start, /cancel, /meuspedidos (mis pedidos), /ecopontos (puntos de entrega), /idioma, /meusdados (mis datos), /apagardados (borrar mis datos).\n" +
+    "Flujo: Nombre → CPF → Teléfono → Foto/Archivo → Confirmación → Cantidad → ¿Más artículos? → CEP → Número → Fecha/Hora → Revisión.",
+  back: "⬅️ Volver",
+  cancel: "Cancelar",
+  no: "No",
+
+  // ---------- idioma ----------
+  chooseLanguage: "Elige el idioma:",
+  languageSet: "¡Listo! A partir de ahora hablaré en *español*. 🇪🇸",
+
+  // ---------- LGPD e perfil ----------
+  start: "¡Hola! Soy el bot de E-Coleta ♻️\n\nEmpecemos con tus datos.\n\n👉 *¿Cuál es tu nombre completo?*",
+  consent: [
+    "¡Hola! Soy el bot de E-Coleta ♻️",
+    "",
+    "Para agendar la recolección necesito tu *nombre, CPF, teléfono y dirección*.",
+    "Estos datos se usan solo para la recolección, se guardan cifrados y puedes",
+    "consultarlos con /meusdados o borrarlos con /apagardados en cualquier momento (LGPD).",
+    "",
+    "¿Aceptas el uso de tus datos para este fin?",
+  ].join("\n"),
+  consentYes: "✅ Acepto",
+  consentNo: "❌ No acepto",
+  consentDeclined: "De acuerdo. Sin tu aceptación no puedo agendar la recolección. Envía /start si cambias de opinión.",
+  welcomeBack: (name: string) =>
+    `¡Hola de nuevo, *${name}*! ♻️\n\n¿Puedo usar tus datos guardados (CPF y teléfono) para este agendamiento?`,
+  profileUse: "✅ Usar mis datos guardados",
+  profileUpdate: "✏️ Actualizar datos",
+  profileLoaded: (name: string) =>
+    `¡Datos cargados, *${name}*! ✅\nAhora envía una *foto* del artículo (o como *Archivo* para mejor calidad).`,
+  myDataCaption: "Estos son todos los datos que guardamos sobre ti. Para borrarlos, envía /apagardados.",
+  eraseConfirm: "⚠️ Esto borra tu perfil, borradores y los datos personales de tus pedidos. Los pedidos abiertos se cancelarán.\n\n¿Confirmas?",
+  eraseYes: "Sí, borrar mis datos",
+  eraseKept: "De acuerdo, no se borró nada.",
+  erased: "🗑️ Tus datos personales fueron borrados.",
+
+  // ---------- dados pessoais ----------
+  askName: "Indica tu *nombre completo*.",
+  askCpf: "Indica tu *CPF* (solo números).",
+  askPhone: "Indica tu *teléfono con código de área* (ej.: 11987654321).",
+  nameThenCpf: "¡Muy bien! Ahora indica tu *CPF* (solo números).",
+  cpfThenPhone: "Perfecto. Indica tu *teléfono con código de área* (ej.: 11987654321).",
+  photoNeedsName: "Antes de procesar la foto, dime tu *nombre completo*.",
+  photoNeedsCpf: "Ahora indica tu *CPF* (solo números).",
+  invalidCpf: "CPF inválido. Inténtalo de nuevo (solo números).",
+  invalidPhone: "Teléfono inválido. Envíalo con el código de área (ej.: 11987654321).",
+  dataSaved: "¡Datos guardados! ✅ Ahora envía una *foto* del artículo (o como *Archivo* para mejor calidad).",
+  dataReceived: "¡Recibí tus datos! Ahora envía una *foto* del artículo (o un *Archivo* para mejor calidad).",
+
+  // ---------- foto e classificação ----------
+  askPhoto: "Envía la *foto* del artículo (o como *Archivo* para mejor calidad).",
+  photoFirst: "Primero envía la *foto* del artículo.",
+  anotherPhoto: "No hay problema. Envía otra *foto* del artículo (preferiblemente como *Archivo* para mejor calidad).",
+  nextPhoto: "¡Bien! Envía la *foto* del siguiente artículo (o como *Archivo* para mejor calidad).",
+  newItemPhoto: "Envía la *foto* del nuevo artículo (o como *Archivo* para mejor calidad).",
+  imageFileOnly: "Envía un *archivo de imagen* (JPG/PNG).",
+  aiTimeout: "⏱️ El servidor de IA tardó en responder. Inténtalo de nuevo o envíala como *Archivo* (sin compresión).",
+  photoFailed: "❌ No pude procesarla. Intenta enviarla como *Archivo* (sin compresión).",
+  fileFailed: "❌ No pude descargar/procesar el archivo. Inténtalo de nuevo.",
+  classifierDown: "El reconocimiento automático no está disponible en este momento. Elige la categoría del artículo:",
+  lowConfidence: "No estoy seguro de qué es este artículo. 🤔\n¿Cuál de estas opciones lo describe mejor?",
+  detected: (item: string) => `Detecté: *${item}*.\n¿Es correcto?`,
+  confirmItem: (item: string) => `Confirma el artículo: *${item}*`,
+  confirmYes: (item: string) => `✅ Sí, es ${item}`,
+  pickFromList: "📋 No, elegir de la lista",
+  sendOtherPhotoNo: "❌ No, enviar otra foto",
+  pickOther: "📋 Otro / elegir de la lista",
+  sendOtherPhoto: "📷 Enviar otra foto",
+  chooseCategory: "Elige la categoría del artículo:",
+  invalidOption: "Opción inválida. Envía otra *foto* del artículo.",
+
+  // ---------- catálogo ----------
+  dropOffOnly: (item: string) =>
+    `♻️ *${item}* no se recoge a domicilio: llévalo a un *punto de entrega* (ver /ecopontos).`,
+  conflict: {
+    hazardWithBulky: (item: string) => `${item} es material peligroso y no puede ir en el mismo camión que artículos voluminosos.`,
+    bulkyWithHazard: (item: string) => `${item} es voluminoso y no puede ir junto con materiales peligrosos (ej.: baterías).`,
+    noCommonSlot: (item: string) => `${item} no tiene día/horario de recolección en común con los demás artículos.`,
+  },
+  separateOrder: "Haz un pedido aparte para este artículo después de terminar el actual.",
+  rejectedSendPhoto: "Si tienes otro artículo para recoger, envía la *foto*.",
+  hazardNote: "☣️ *Atención:*",
+  infoNote: "ℹ️",
+  safety: {
+    Battery: "Cubre los polos con cinta aislante, no la perfores ni la aplastes y guárdala lejos del calor y la humedad. Baterías hinchadas o con fugas: ponlas en una bolsa de plástico.",
+    Microwave: "Retira el plato de vidrio y embálalo por separado.",
+    Mobile: "Borra tus datos y retira el chip y la tarjeta de memoria. Si la batería está hinchada, avisa al equipo.",
+    Printer: "Retira los cartuchos/tóner y entrégalos en un punto de recolección de cartuchos.",
+    Television: "No rompas la pantalla. Los modelos de tubo (CRT) contienen plomo: manipúlalos con cuidado.",
+    "Washing Machine": "Desconéctala de la corriente y del agua, vacía la manguera y deja la máquina seca.",
+  },
+
+  // ---------- quantidade e carrinho ----------
+  itemOk: (item: string) => `¡Bien, *${item}*!`,
+  askQty: "¿Cuántas unidades quieres desechar?",
+  askQtyFor: (item: string) => `*${item}*: ¿cuántas unidades quieres desechar?`,
+  typeQty: "Escribe la *cantidad* (número entero):",
+  invalidQty: "Cantidad inválida. Envía un número entero mayor que 0.",
+  added: (line: string) => `Agregado: *${line}*.`,
+  cartTitle: "🛒 Artículos de la recolección:",
+  askMore: "¿Quieres *agregar otro artículo*?",
+  moreYes: "➕ Agregar otro artículo",
+  moreNo: "➡️ No, seguir a la dirección",
+  cartEmpty: "Tu carrito está vacío. Envía la *foto* de un artículo.",
+  cartEmptied: "Tu carrito quedó vacío. Envía la *foto* de un artículo.",
+
+  // ---------- endereço ----------
+  askCep: "Indica tu *CEP* (código postal, solo números).",
+  askCepAfterCart: "Ahora indica tu *CEP* (código postal, solo números).",
+  askCepOk: "¡Bien! Indica tu *CEP* (código postal, solo números).",
+  orShareLocation: "Si estás en el lugar de la recolección, también puedes enviar tu *ubicación*.",
+  shareLocation: "📍 Enviar mi ubicación",
+  invalidCep: "CEP inválido. Envía 8 dígitos (ej.: 01001000).",
+  cepLookup: "🔎 Consultando el CEP…",
+  cepNotFound: "CEP no encontrado. Revísalo y envíalo de nuevo.",
+  cepUnavailable: "⚠️ No pude consultar el CEP ahora.\nEscribe la *dirección completa*:",
+  manualHint: "Calle, número, barrio, ciudad/estado\n(ej.: Rua das Flores, 123 apto 4, Centro, Itu/SP)",
+  manualInvalid: "No entendí la dirección. Usa el formato:",
+  retryCep: "🔁 Probar el CEP de nuevo",
+  useSaved: (addr: string) => `📍 Usar ${addr}`,
+  addressFoundByCep: "Dirección encontrada por el CEP:",
+  addressLabel: "Dirección:",
+  addressComplete: "Dirección completa:",
+  missingStreet: {
+    both: "La dirección encontrada no tiene *calle* ni *barrio*.\nIndica la calle y el barrio (ej.: Rua das Flores, Centro).",
+    street: "La dirección encontrada no tiene *calle*.\nIndica la calle (ej.: Rua das Flores).",
+    neighborhood: "La dirección encontrada no tiene *barrio*.\nIndica el barrio (ej.: Centro).",
+  },
+  askNumber: "👉 Indica el *número* de la vivienda (y el complemento, si lo hay).",
+  askNumberFound: (n: string) => `👉 Indica el *número* de la vivienda (encontré *${n}*, confírmalo o corrígelo) y el complemento, si lo hay.`,
+  invalidNumber: "Indica el número (ej.: 123) y, opcionalmente, el complemento (ej.: 123, apto 45).",
+
+  // ---------- localização ----------
+  locationNotNow: "Envía la ubicación cuando te pida la dirección de la recolección.",
+  locationReceived: "📍 Ubicación recibida, buscando la dirección…",
+  locationUnknown: "No pude identificar la dirección de esa ubicación. Indica tu *CEP* (solo números).",
+  locationFound: (addr: string) => `Dirección encontrada por la ubicación:\n*${addr}*\n\n¿Es correcta?`,
+  locationConfirm: "Confirma la dirección de la ubicación o escribe el CEP:",
+  locationOk: "✅ Dirección correcta",
+  typeCep: "✏️ Escribir CEP",
+
+  // ---------- área atendida e ecopontos ----------
+  outOfArea: (place: string) => `😕 Todavía no hacemos recolecciones en *${place}*.\nPuedes entregar los artículos en un punto de entrega:`,
+  otherCep: "Si los artículos están en otra dirección, envía otro *CEP* o usa /cancel.",
+  noEcopontos: "Ningún punto de entrega registrado acepta estos artículos.",
+  ecopontosFor: (items: string) => `♻️ Puntos de entrega que aceptan ${items}:`,
+  ecopontosAll: "♻️ Puntos de entrega:",
+  ecopontosInvalidCep: "CEP inválido. Usa /ecopontos 01001000",
+  ecopontosCepNotFound: "CEP no encontrado.",
+  accepts: "Acepta",
+
+  // ---------- acesso (itens volumosos) ----------
+  access: { terreo: "🏠 Casa / planta baja", elevador: "🛗 Apartamento con ascensor", escada: "🪜 Piso sin ascensor" },
+  bulkyWhere: "🚚 Tu pedido tiene un artículo voluminoso: el equipo lo retira *en la planta baja*.\n¿Dónde está el artículo?",
+  bulkyPrompt: "🚚 El equipo retira los artículos voluminosos *en la planta baja*.\n¿Dónde está el artículo?",
+  bulkyWhereShort: "¿Dónde está el artículo voluminoso?",
+  groundFloorNote: "👉 A la hora de la recolección, deja el artículo *en la planta baja/portería*: el equipo no sube pisos.",
+
+  // ---------- agenda ----------
+  chooseDate: "Elige la *fecha* de la recolección:",
+  chooseDateNow: "Ahora elige la *fecha* de la recolección:",
+  chooseTime: "Elige un horario:",
+  soldOut: "agotado",
+  backToDays: "Volver a los días",
+  slotSoldOutToast: "Horario agotado. Elige otro.",
+  dateUnavailable: "Esa fecha ya no está disponible. Elige otra:",
+  timeUnavailable: (hours: number) => `Ese horario ya no está disponible (antelación mínima de ${hours}h). Elige otro:`,
+  reserveFailed: "No pude reservar el horario ahora. Inténtalo de nuevo en unos instantes.",
+  justSoldOut: "😕 Ese horario se acaba de agotar. Elige otro:",
+
+  // ---------- revisão ----------
+  reviewTitle: "📝 *Revisa tu pedido:*",
+  reviewQuestion: "¿Está todo bien?",
+  edit: {
+    name: "✏️ Nombre", cpf: "✏️ CPF", phone: "✏️ Teléfono", items: "✏️ Artículos", address: "✏️ Dirección",
+    number: "✏️ Número", access: "✏️ Acceso", schedule: "✏️ Fecha/Hora",
+  },
+  confirmBooking: "✅ Confirmar agendamiento",
+  addItem: "📷 Agregar artículo",
+  backToReview: "↩️ Volver a la revisión",
+  notInReview: "Este pedido ya no está en revisión. Consulta /meuspedidos.",
+  alreadyRegistered: "Este pedido ya fue registrado. Consulta /meuspedidos.",
+  stillConfirming: "⏳ Todavía estoy registrando tu pedido. Si la confirmación no llega en 1 minuto, toca Confirmar de nuevo.",
+  lostState: "¡Casi listo! Parece que el servidor se reinició y perdí parte del estado.\n\n" +
+    "👉 Envía /start para reiniciar rápidamente, o reenvía el CEP para retomar el paso actual.",
+  field: {
+    name: "Nombre", cpf: "CPF", phone: "Teléfono", items: "Artículos", weight: "Peso estimado",
+    access: "Acceso", address: "Dirección", schedule: "Fecha/Hora", protocol: "Protocolo",
+  },
+  at: "a las",
+
+  // ---------- pedidos ----------
+  registered: "✅ *¡Pedido de recolección registrado!*",
+  followUp: "Consulta, cancela o reagenda en /meuspedidos.",
+  done: "Tu pedido ya fue registrado. Envía una nueva *foto* para otro artículo, o consulta tus pedidos en /meuspedidos.",
+  noOrders: "Todavía no tienes pedidos de recolección. Envía /start para agendar. 😉",
+  orderNotFound: "Pedido no encontrado.",
+  status: {
+    agendado: "🗓️ Agendado", confirmado: "👍 Confirmado", coletado: "✅ Recogido",
+    ausente: "🚪 Nadie en casa", cancelado: "❌ Cancelado",
+  },
+  reschedule: "🔁 Reagendar",
+  cancelOrder: "❌ Cancelar pedido",
+  cancelShort: "❌ Cancelar",
+  confirmPresence: "👍 Confirmo",
+  cancelQuestion: "¿Confirmas la cancelación?",
+  cancelYes: "Sí, cancelar",
+  cancelFailed: "No fue posible cancelar este pedido.",
+  thanksConfirm: "👍 ¡Gracias por confirmar!",
+  confirmFailed: "No fue posible confirmar este pedido.",
+  rescheduling: (protocol: string) => `Reagendando *${protocol}*.\nElige la nueva *fecha* de la recolección:`,
+  rescheduleFailed: "No fue posible reagendar este pedido.",
+  rescheduled: "🔁 *¡Pedido reagendado!*",
+
+  // ---------- comprobante (invitación .ics y PDF) ----------
+  receipt: {
+    title: "Comprobante de agendamiento",
+    eventTitle: (protocol: string) => `Recolección de electrónicos — ${protocol}`,
+    scanHint: "Muestra este código QR al equipo en el momento de la recolección.",
+    icsCaption: "📅 Agrega la recolección a tu calendario.",
+    pdfCaption: "🧾 Tu comprobante. El equipo escanea el código QR para confirmar la recolección.",
+  },
+
+  // ---------- avisos e lembretes (enviados fora da conversa) ----------
+  notice: {
+    confirmado: "👍 Tu recolección fue *confirmada* por el equipo.",
+    coletado: "✅ Tu recolección fue *realizada*. ¡Gracias por desechar correctamente! ♻️",
+    ausente: "🚪 El equipo pasó por la dirección pero *no encontró a nadie*. Agenda de nuevo con /start.",
+    cancelado: "❌ Tu recolección fue *cancelada* por el equipo. Agenda de nuevo con /start.",
+  },
+  reminder: (when: "vespera" | "dia", date: string, time: string) =>
+    `⏰ Recordatorio: tu recolección es ${when === "vespera" ? "*mañana*" : "*hoy*"}, ${date} a las *${time}*.`,
+  willYouBeThere: "¿Estarás en el lugar?",
+};
@@ -0,0 +1,247 @@
+// api/_lib/messages/pt-BR.ts — textos do bot em português (idioma de referência do catálogo)
+// Markdown do Telegram: *negrito*, _itálico_. Os outros idiomas seguem as mesmas chaves.
+export const ptBR = {
+  languageName: "🇧🇷 Português",
+
+  // ---------- geral ----------
+  tooManyActions: "Muitas ações seguidas. Aguarde um minuto.",
+  tooManyMessages: "⏳ Muitas mensagens em pouco tempo. Aguarde um minuto e tente novamente.",
+  tooManyPhotos: "⏳ Você enviou muitas fotos na última hora. Tente novamente mais tarde.",
+  cancelled: "Fluxo cancelado. Envie /start para começar novamente.",
+  sendStart: "Envie /start para começar.",
+  startHint: "Envie /start para iniciar o fluxo de agendamento. 😉",
+  fallback: "Beleza! Siga as instruções acima ou envie /cancel para recomeçar.",
+  help: "Comandos: /start, /cancel, /meuspedidos, /ecopontos, /idioma, /meusdados, /apagardados.\n" +
+    "Fluxo: Nome → CPF → Telefone → Foto/Arquivo → Confirmação → Quantidade → Mais itens? → CEP → Número → Data/Hora → Revisão.",
+  back: "⬅️ Voltar",
+  cancel: "Cancelar",
+  no: "Não",
+
+  // ---------- idioma ----------
+  chooseLanguage: "Escolha o idioma:",
+  languageSet: "Pronto! Vou falar em *português*. 🇧🇷",
+
+  // ---------- LGPD e perfil ----------
+  start: "Olá! Eu sou o bot da E-Coleta ♻️\n\nVamos começar com seus dados.\n\n👉 *Seu nome completo?*",
+  consent: [
+    "Olá! Eu sou o bot da E-Coleta ♻️",
+    "",
+    "Para agendar a coleta preciso do seu *nome, CPF, telefone e endereço*.",
+    "Esses dados são usados apenas para a coleta, ficam criptografados e você pode",
+    "consultá-los em /meusdados ou apagá-los em /apagardados a qualquer momento (LGPD).",
+    "",
+    "Você concorda com o uso dos seus dados para este fim?",
+  ].join("\n"),
+  consentYes: "✅ Concordo",
+  consentNo: "❌ Não concordo",
+  consentDeclined: "Tudo bem. Sem o aceite não consigo agendar a coleta. Envie /start se mudar de ideia.",
+  welcomeBack: (name: string) =>
+    `Olá de novo, *${name}*! ♻️\n\nPosso usar os dados salvos (CPF e telefone) para este agendamento?`,
+  profileUse: "✅ Usar meus dados salvos",
+  profileUpdate: "✏️ Atualizar dados",
+  profileLoaded: (name: string) =>
+    `Dados carregados, *${name}*! ✅\nAgora, envie uma *foto* do item (ou como *Arquivo* para melhor qualidade).`,
+  myDataCaption: "Estes são todos os dados que guardamos sobre você. Para apagá-los, envie /apagardados.",
+  eraseConfirm: "⚠️ Isso apaga seu perfil, rascunhos e os dados pessoais dos seus pedidos. Pedidos em aberto serão cancelados.\n\nConfirma?",
+  eraseYes: "Sim, apagar meus dados",
+  eraseKept: "Ok, nada foi apagado.",
+  erased: "🗑️ Seus dados pessoais foram apagados.",
+
+  // ---------- dados pessoais ----------
+  askName: "Informe seu *Nome completo*.",
+  askCpf: "Informe seu *CPF* (somente números).",
+  askPhone: "Informe seu *telefone com DDD* (ex.: 11987654321).",
+  nameThenCpf: "Ótimo! Agora informe seu *CPF* (somente números).",
+  cpfThenPhone: "Perfeito. Informe seu *telefone com DDD* (ex.: 11987654321).",
+  photoNeedsName: "Antes de processar a foto, me informe seu *Nome completo*.",
+  photoNeedsCpf: "Agora, informe seu *CPF* (somente números).",
+  invalidCpf: "CPF inválido. Tente novamente (somente números).",
+  invalidPhone: "Telefone inválido. Envie no formato com DDD (ex.: 11987654321).",
+  dataSaved: "Dados salvos! ✅ Agora, envie uma *foto* do item (ou como *Arquivo* para melhor qualidade).",
+  dataReceived: "Recebi seus dados! Agora envie uma *foto* do item (ou *Arquivo* para melhor qualidade).",
+
+  // ---------- foto e classificação ----------
+  askPhoto: "Envie a *foto* do item (ou como *Arquivo* para melhor qualidade).",
+  photoFirst: "Envie a *foto* do item primeiro.",
+  anotherPhoto: "Sem problemas. Envie outra *foto* do item (de preferência como *Arquivo* para melhor qualidade).",
+  nextPhoto: "Certo! Envie a *foto* do próximo item (ou como *Arquivo* para melhor qualidade).",
+  newItemPhoto: "Envie a *foto* do novo item (ou como *Arquivo* para melhor qualidade).",
+  imageFileOnly: "Envie um *arquivo de imagem* (JPG/PNG).",
+  aiTimeout: "⏱️ O servidor de IA demorou para responder. Tente novamente ou envie como *Arquivo* (sem compressão).",
+  photoFailed: "❌ Não consegui processar. Tente enviar como *Arquivo* (sem compressão).",
+  fileFailed: "❌ Não consegui baixar/processar o arquivo. Tente novamente.",
+  classifierDown: "O reconhecimento automático está indisponível no momento. Escolha a categoria do item:",
+  lowConfidence: "Não tenho certeza do que é este item. 🤔\nQual destas opções descreve melhor?",
+  detected: (item: string) => `Detectei: *${item}*.\nEstá correto?`,
+  confirmItem: (item: string) => `Confirme o item: *${item}*`,
+  confirmYes: (item: string) => `✅ Sim, é ${item}`,
+  pickFromList: "📋 Não, escolher da lista",
+  sendOtherPhotoNo: "❌ Não, enviar outra foto",
+  pickOther: "📋 Outro / escolher da lista",
+  sendOtherPhoto: "📷 Enviar outra foto",
+  chooseCategory: "Escolha a categoria do item:",
+  invalidOption: "Opção inválida. Envie outra *foto* do item.",
+
+  // ---------- catálogo ----------
+  dropOffOnly: (item: string) =>
+    `♻️ *${item}* não é recolhido em casa: leve-o a um *ecoponto* de descarte (veja em /ecopontos).`,
+  conflict: {
+    hazardWithBulky: (item: string) => `${item} é material perigoso e não pode ir no mesmo caminhão de itens volumosos.`,
+    bulkyWithHazard: (item: string) => `${item} é volumoso e não pode ir junto com materiais perigosos (ex.: baterias).`,
+    noCommonSlot: (item: string) => `${item} não tem dia/horário de coleta em comum com os outros itens.`,
+  },
+  separateOrder: "Faça um pedido separado para este item depois de concluir o atual.",
+  rejectedSendPhoto: "Se tiver outro item para coleta, envie a *foto*.",
+  hazardNote: "☣️ *Atenção:*",
+  infoNote: "ℹ️",
+  safety: {
+    Battery: "Cubra os polos com fita isolante, não perfure nem amasse e guarde longe de calor e umidade. Baterias estufadas ou vazando: coloque em saco plástico.",
+    Microwave: "Retire o prato de vidro e embale-o separadamente.",
+    Mobile: "Apague seus dados, retire o chip e o cartão de memória. Se a bateria estiver estufada, avise a equipe.",
+    Printer: "Retire os cartuchos/toner e entregue-os em um ponto de coleta de cartuchos.",
+    Television: "Não quebre a tela. Modelos de tubo (CRT) contêm chumbo: manuseie com cuidado.",
+    "Washing Machine": "Desligue da tomada e da água, esvazie a mangueira e deixe a máquina seca.",
+  } as Record<string, string>,
+
+  // ---------- quantidade e carrinho ----------
+  itemOk: (item: string) => `Ok, *${item}*!`,
+  askQty: "Quantas unidades você deseja descartar?",
+  askQtyFor: (item: string) => `*${item}*: quantas unidades você deseja descartar?`,
+  typeQty: "Digite a *quantidade* (número inteiro):",
+  invalidQty: "Quantidade inválida. Envie um número inteiro maior que 0.",
+  added: (line: string) => `Adicionado: *${line}*.`,
+  cartTitle: "🛒 Itens da coleta:",
+  askMore: "Deseja *adicionar outro item*?",
+  moreYes: "➕ Adicionar outro item",
+  moreNo: "➡️ Não, seguir para o endereço",
+  cartEmpty: "Seu carrinho está vazio. Envie a *foto* de um item.",
+  cartEmptied: "Seu carrinho ficou vazio. Envie a *foto* de um item.",
+
+  // ---------- endereço ----------
+  askCep: "Informe seu *CEP* (somente números).",
+  askCepAfterCart: "Agora, informe seu *CEP* (somente números).",
+  askCepOk: "Ok! Informe seu *CEP* (somente números).",
+  orShareLocation: "Se estiver no local da coleta, você também pode enviar sua *localização*.",
+  shareLocation: "📍 Enviar minha localização",
+  invalidCep: "CEP inválido. Envie 8 dígitos (ex.: 01001000).",
+  cepLookup: "🔎 Consultando o CEP…",
+  cepNotFound: "CEP não encontrado. Verifique e envie novamente.",
+  cepUnavailable: "⚠️ Não consegui consultar o CEP agora.\nDigite o *endereço completo*:",
+  manualHint: "Rua, número, bairro, cidade/UF\n(ex.: Rua das Flores, 123 apto 4, Centro, Itu/SP)",
+  manualInvalid: "Não entendi o endereço. Use o formato:",
+  retryCep: "🔁 Tentar o CEP de novo",
+  useSaved: (addr: string) => `📍 Usar ${addr}`,
+  addressFoundByCep: "Endereço encontrado pelo CEP:",
+  addressLabel: "Endereço:",
+  addressComplete: "Endereço completo:",
+  missingStreet: {
+    both: "O endereço encontrado não traz *rua* nem *bairro*.\nInforme a rua e o bairro (ex.: Rua das Flores, Centro).",
+    street: "O endereço encontrado não traz *rua*.\nInforme a rua (ex.: Rua das Flores).",
+    neighborhood: "O endereço encontrado não traz *bairro*.\nInforme o bairro (ex.: Centro).",
+  },
+  askNumber: "👉 Informe o *número* da residência (e complemento se houver).",
+  askNumberFound: (n: string) => `👉 Informe o *número* da residência (encontrei *${n}*, confirme ou corrija) e complemento se houver.`,
+  invalidNumber: "Informe o número (ex.: 123) e, opcionalmente, complemento (ex.: 123, apto 45).",
+
+  // ---------- localização ----------
+  locationNotNow: "Envie a localização quando eu pedir o endereço da coleta.",
+  locationReceived: "📍 Localização recebida, buscando o endereço…",
+  locationUnknown: "Não consegui identificar o endereço dessa localização. Informe seu *CEP* (somente números).",
+  locationFound: (addr: string) => `Endereço encontrado pela localização:\n*${addr}*\n\nEstá correto?`,
+  locationConfirm: "Confirme o endereço da localização ou digite o CEP:",
+  locationOk: "✅ Endereço correto",
+  typeCep: "✏️ Digitar CEP",
+
+  // ---------- área atendida e ecopontos ----------
+  outOfArea: (place: string) => `😕 Ainda não fazemos coleta em *${place}*.\nVocê pode entregar os itens em um ecoponto:`,
+  otherCep: "Se os itens estiverem em outro endereço, envie outro *CEP* ou use /cancel.",
+  noEcopontos: "Nenhum ecoponto cadastrado aceita esses itens.",
+  ecopontosFor: (items: string) => `♻️ Ecopontos que aceitam ${items}:`,
+  ecopontosAll: "♻️ Ecopontos:",
+  ecopontosInvalidCep: "CEP inválido. Use /ecopontos 01001000",
+  ecopontosCepNotFound: "CEP não encontrado.",
+  accepts: "Aceita",
+
+  // ---------- acesso (itens volumosos) ----------
+  access: { terreo: "🏠 Casa / térreo", elevador: "🛗 Apartamento com elevador", escada: "🪜 Andar sem elevador" },
+  bulkyWhere: "🚚 Seu pedido tem item volumoso: a equipe retira *no térreo*.\nOnde o item está?",
+  bulkyPrompt: "🚚 A equipe retira itens volumosos *no térreo*.\nOnde o item está?",
+  bulkyWhereShort: "Onde o item volumoso está?",
+  groundFloorNote: "👉 No horário da coleta, deixe o item *no térreo/portaria*: a equipe não sobe andares.",
+
+  // ---------- agenda ----------
+  chooseDate: "Escolha a *data* da coleta:",
+  chooseDateNow: "Agora, escolha a *data* da coleta:",
+  chooseTime: "Escolha um horário:",
+  soldOut: "esgotado",
+  backToDays: "Voltar dias",
+  slotSoldOutToast: "Horário esgotado. Escolha outro.",
+  dateUnavailable: "Essa data não está mais disponível. Escolha outra:",
+  timeUnavailable: (hours: number) => `Esse horário não está mais disponível (antecedência mínima de ${hours}h). Escolha outro:`,
+  reserveFailed: "Não consegui reservar o horário agora. Tente novamente em instantes.",
+  justSoldOut: "😕 Esse horário acabou de esgotar. Escolha outro:",
+
+  // ---------- revisão ----------
+  reviewTitle: "📝 *Revise seu pedido:*",
+  reviewQuestion: "Está tudo certo?",
+  edit: {
+    name: "✏️ Nome", cpf: "✏️ CPF", phone: "✏️ Telefone", items: "✏️ Itens", address: "✏️ Endereço",
+    number: "✏️ Número", access: "✏️ Acesso", schedule: "✏️ Data/Hora",
+  },
+  confirmBooking: "✅ Confirmar agendamento",
+  addItem: "📷 Adicionar item",
+  backToReview: "↩️ Voltar à revisão",
+  notInReview: "Este pedido não está mais em revisão. Veja em /meuspedidos.",
+  alreadyRegistered: "Este pedido já foi registrado. Veja em /meuspedidos.",
+  stillConfirming: "⏳ Ainda estou registrando seu pedido. Se a confirmação não chegar em 1 minuto, toque em Confirmar de novo.",
+  lostState: "Quase lá! Parece que o servidor reiniciou e perdi parte do estado.\n\n" +
+    "👉 Envie /start para reiniciar rapidamente, ou reenvie o CEP para retomarmos o passo atual.",
+  field: {
+    name: "Nome", cpf: "CPF", phone: "Telefone", items: "Itens", weight: "Peso estimado",
+    access: "Acesso", address: "Endereço", schedule: "Data/Hora", protocol: "Protocolo",
+  },
+  at: "às",
+
+  // ---------- pedidos ----------
+  registered: "✅ *Pedido de coleta registrado!*",
+  followUp: "Acompanhe, cancele ou reagende em /meuspedidos.",
+  done: "Seu pedido já foi registrado. Envie uma nova *foto* para outro item, ou veja seus pedidos em /meuspedidos.",
+  noOrders: "Você ainda não tem pedidos de coleta. Envie /start para agendar. 😉",
+  orderNotFound: "Pedido não encontrado.",
+  status: {
+    agendado: "🗓️ Agendado", confirmado: "👍 Confirmado", coletado: "✅ Coletado",
+    ausente: "🚪 Não encontrado", cancelado: "❌ Cancelado",
+  },
+  reschedule: "🔁 Reagendar",
+  cancelOrder: "❌ Cancelar pedido",
+  cancelShort: "❌ Cancelar",
+  confirmPresence: "👍 Confirmo",
+  cancelQuestion: "Confirma o cancelamento?",
+  cancelYes: "Sim, cancelar",
+  cancelFailed: "Não foi possível cancelar este pedido.",
+  thanksConfirm: "👍 Obrigado por confirmar!",
+  confirmFailed: "Não foi possível confirmar este pedido.",
+  rescheduling: (protocol: string) => `Reagendando *${protocol}*.\nEscolha a nova *data* da coleta:`,
+  rescheduleFailed: "Não foi possível reagendar este pedido.",
+  rescheduled: "🔁 *Pedido reagendado!*",
+
+  // ---------- comprovante (convite .ics e PDF) ----------
+  receipt: {
+    title: "Comprovante de agendamento",
+    eventTitle: (protocol: string) => `Coleta de eletrônicos — ${protocol}`,
+    scanHint: "Apresente este QR code à equipe no momento da coleta.",
+    icsCaption: "📅 Adicione a coleta à sua agenda.",
+    pdfCaption: "🧾 Seu comprovante. A equipe lê o QR code para confirmar a coleta.",
+  },
+
+  // ---------- avisos e lembretes (enviados fora da conversa) ----------
+  notice: {
+    confirmado: "👍 Sua coleta foi *confirmada* pela equipe.",
+    coletado: "✅ Sua coleta foi *realizada*. Obrigado por descartar corretamente! ♻️",
+    ausente: "🚪 A equipe passou no endereço mas *não encontrou ninguém*. Agende novamente em /start.",
+    cancelado: "❌ Sua coleta foi *cancelada* pela equipe. Agende novamente em /start.",
+  } as Partial<Record<string, string>>,
+  reminder: (when: "vespera" | "dia", date: string, time: string) =>
+    `⏰ Lembrete: sua coleta é ${when === "vespera" ? "*amanhã*" : "*hoje*"}, ${date} às *${time}*.`,
+  willYouBeThere: "Você estará no local?",
+};
@@ -0,0 +1,83 @@
+// api/_lib/metrics.ts — contadores e histogramas no Store, expostos no formato texto do Prometheus
+// Cada invocação serverless é um processo novo: os valores ficam no Store, não em memória.
+import { store } from "./store.js";
+
+type Labels = Record<string, string>;
+
+const COUNTERS = {
+  ecoleta_updates_total: "Updates do Telegram recebidos, por tipo",
+  ecoleta_confirm_total: "Respostas à confirmação do item detectado (sim/não)",
+  ecoleta_step_transitions_total: "Mudanças de passo do rascunho gravadas pelo mergeDraft",
+};
+// buckets em segundos (o orçamento de classificação é de 7s)
+const HISTOGRAMS = {
+  ecoleta_classification_duration_seconds: {
+    help: "Tempo de classificação de imagem, por backend e resultado",
+    buckets: [0.25, 0.5, 1, 2, 4, 8],
+  },
+};
+type CounterName = keyof typeof COUNTERS;
+type HistogramName = keyof typeof HISTOGRAMS;
+
+const METRICS_TTL = 60 * 60 * 24 * 365; // 1 ano
+const PREFIX = "ecoleta:metric:";
+
+// rótulos já no formato do Prometheus: a chave guarda a série pronta para exposição
+const escape = (v: string) => v.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+const labelString = (labels: Labels) => Object.entries(labels).map(([k, v]) => `${k}="${escape(v)}"`).join(",");
+const metricKey = (sample: string, labels: Labels = {}) => `${PREFIX}${sample}|${labelString(labels)}`;
+
+// métrica nunca derruba o fluxo: falha do Store só vai para o log
+async function safely(name: string, fn: () => Promise<unknown>) {
+  try {
+    await fn();
+  } catch (e) {
+    console.error("[METRICS] falha ao registrar", name, e);
+  }
+}
+
+export const inc = (name: CounterName, labels: Labels = {}, by = 1) =>
+  safely(name, () => store.incr(metricKey(name, labels), by, METRICS_TTL));
+
+// bucket não cumulativo no Store; a soma acumulada é feita na exposição
+export const observe = (name: HistogramName, labels: Labels, seconds: number) =>
+  safely(name, () => {
+    const le = HISTOGRAMS[name].buckets.find((b) => seconds <= b);
+    return Promise.all([
+      store.incr(metricKey(`${name}_bucket`, { ...labels, le: le == null ? "+Inf" : String(le) }), 1, METRICS_TTL),
+      store.incr(metricKey(`${name}_sum_ms`, labels), Math.round(seconds * 1000), METRICS_TTL),
+      store.incr(metricKey(`${name}_count`, labels), 1, METRICS_TTL),
+    ]);
+  });
+
+// ---------- exposição (text format 0.0.4) ----------
+export async function renderMetrics(): Promise<string> {
+  const keys = await store.keys(PREFIX);
+  const values = await Promise.all(keys.map((k) => store.get<number>(k)));
+  const samples = new Map(keys.map((k, i) => [k.slice(PREFIX.length), Number(values[i]) || 0]));
+  const series = (sample: string) =>
+    [...samples].filter(([k]) => k.startsWith(`${sample}|`)).map(([k, v]) => ({ labels: k.slice(sample.length + 1), value: v }))
+      .sort((a, b) => a.labels.localeCompare(b.labels));
+  const braces = (labels: string) => (labels ? `{${labels}}` : "");
+  const withLe = (labels: string, le: string) => `${labels}${labels ? "," : ""}le="${le}"`;
+
+  const out: string[] = [];
+  for (const [name, help] of Object.entries(COUNTERS)) {
+    out.push(`# HELP ${name} ${help}`, `# TYPE ${name} counter`);
+    for (const s of series(name)) out.push(`${name}${braces(s.labels)} ${s.value}`);
+  }
+  for (const [name, { help, buckets }] of Object.entries(HISTOGRAMS)) {
+    out.push(`# HELP ${name} ${help}`, `# TYPE ${name} histogram`);
+    for (const { labels, value: count } of series(`${name}_count`)) {
+      let cumulative = 0;
+      for (const b of buckets) {
+        cumulative += samples.get(`${name}_bucket|${withLe(labels, String(b))}`) ?? 0;
+        out.push(`${name}_bucket{${withLe(labels, String(b))}} ${cumulative}`);
+      }
+      out.push(`${name}_bucket{${withLe(labels, "+Inf")}} ${count}`);
+      out.push(`${name}_sum${braces(labels)} ${(samples.get(`${name}_sum_ms|${labels}`) ?? 0) / 1000}`);
+      out.push(`${name}_count${braces(labels)} ${count}`);
+    }
+  }
+  return `${out.join("\n")}\n`;
+}
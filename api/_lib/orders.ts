@@ -0,0 +1,198 @@
+// api/_lib/orders.ts — pedidos de coleta, índices e capacidade por horário
+import { Api } from "grammy";
+import { store } from "./store.js";
+import { openUser, sealUser } from "./lgpd.js";
+import { addDaysISO, localDayISO } from "./calendar.js";
+import { t } from "./i18n.js";
+import type { Order, OrderStatus } from "./types.js";
+
+// ---------- Pedidos ----------
+export const ORDER_TTL = 60 * 60 * 24 * 180; // 180 dias
+
+export const orderKey = (protocol: string) => `ecoleta:order:${protocol}`;
+export const userOrdersKey = (chatId: number) => `ecoleta:orders:${chatId}`;
+export const dayOrdersKey = (dayISO: string) => `ecoleta:orders:day:${dayISO}`;
+
+// agendado -> confirmado -> coletado; ausente (no-show) e cancelado a partir de qualquer estado aberto
+// confirmado -> agendado: reagendamento (a presença confirmada valia para o horário antigo)
+const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  agendado: ["confirmado", "coletado", "ausente", "cancelado"],
+  confirmado: ["agendado", "coletado", "ausente", "cancelado"],
+  coletado: [],
+  ausente: [],
+  cancelado: [],
+};
+export const STATUS_PT: Record<OrderStatus, string> = {
+  agendado: "🗓️ Agendado",
+  confirmado: "👍 Confirmado",
+  coletado: "✅ Coletado",
+  ausente: "🚪 Não encontrado",
+  cancelado: "❌ Cancelado",
+};
+export const isOpenOrder = (o: Order) => o.status === "agendado" || o.status === "confirmado";
+
+// Ex.: EC250916-7K2Q (data local + sufixo aleatório, legível para o atendimento)
+function newProtocol(now = new Date()) {
+  const ymd = localDayISO(now).slice(2).replace(/-/g, "");
+  const rnd = Math.random().toString(36).slice(2, 6).toUpperCase().padEnd(4, "0");
+  return `EC${ymd}-${rnd}`;
+}
+
+const CAS_RETRIES = 5;
+
+// get -> altera -> compare-and-set, como o mergeDraft do rascunho; em conflito relê e reaplica.
+// change devolve undefined quando não há nada a gravar.
+async function casUpdate<T>(key: string, change: (cur?: T) => T | undefined): Promise<T | undefined> {
+  for (let attempt = 1; attempt <= CAS_RETRIES; attempt++) {
+    const { value, version } = await store.getVersioned<T>(key);
+    const next = change(value);
+    if (next === undefined) return undefined;
+    if (await store.setVersioned(key, next, version, ORDER_TTL)) return next;
+    console.warn("[ORDER] conflito de escrita", key, "tentativa", attempt);
+  }
+  throw new Error(`[ORDER] conflito persistente ao gravar ${key}`);
+}
+
+// dois pedidos gravados ao mesmo tempo não podem sumir do índice um do outro
+const addToIndex = (key: string, protocol: string) =>
+  casUpdate<string[]>(key, (idx = []) => (idx.includes(protocol) ? undefined : [...idx, protocol]));
+const removeFromIndex = (key: string, protocol: string) =>
+  casUpdate<string[]>(key, (idx = []) => (idx.includes(protocol) ? idx.filter((p) => p !== protocol) : undefined));
+
+export async function getOrder(protocol: string): Promise<Order | undefined> {
+  const o = await store.get<Order>(orderKey(protocol));
+  return o && { ...o, user: openUser(o.user)! };
+}
+// gravação incondicional, mas que avança a versão: um updateOrder concorrente relê em vez de sobrescrever
+export async function saveOrder(o: Order) {
+  await store.setVersioned(orderKey(o.protocol), { ...o, user: sealUser(o.user) }, null, ORDER_TTL);
+}
+const PROTOCOL_RETRIES = 5;
+
+export async function createOrder(
+  chatId: number, data: Pick<Order, "user" | "items" | "address" | "location" | "access" | "schedule" | "locale">
+): Promise<Order> {
+  // o sufixo tem só 4 caracteres: grava só se o protocolo for inédito (versão 0) e sorteia outro se não for
+  let order: Order | undefined;
+  for (let attempt = 1; attempt <= PROTOCOL_RETRIES && !order; attempt++) {
+    const o: Order = { protocol: newProtocol(), chatId, status: "agendado", createdAt: new Date().toISOString(), ...data };
+    // pedidos gravados antes do compare-and-set não têm versão: confere a chave também
+    const free = !(await store.get(orderKey(o.protocol)))
+      && await store.setVersioned(orderKey(o.protocol), { ...o, user: sealUser(o.user) }, 0, ORDER_TTL);
+    if (free) order = o;
+    else console.warn("[ORDER] protocolo repetido", o.protocol, "tentativa", attempt);
+  }
+  if (!order) throw new Error("[ORDER] não foi possível gerar um protocolo inédito");
+  await addToIndex(userOrdersKey(chatId), order.protocol);
+  await addToIndex(dayOrdersKey(order.schedule.day), order.protocol);
+  console.log("[ORDER] criado", order.protocol, "chat", chatId);
+  return order;
+}
+async function ordersFromIndex(key: string): Promise<Order[]> {
+  const idx = (await store.get<string[]>(key)) ?? [];
+  const orders = await Promise.all(idx.map(getOrder));
+  return orders.filter((o): o is Order => !!o);
+}
+export const listOrders = (chatId: number) => ordersFromIndex(userOrdersKey(chatId));
+export const listOrdersByDay = (dayISO: string) => ordersFromIndex(dayOrdersKey(dayISO));
+
+export type OrderFilter = {
+  from: string; // AAAA-MM-DD
+  to: string;
+  status?: OrderStatus[];
+  localidade?: string;
+  label?: string;
+};
+export const MAX_RANGE_DAYS = 93; // dias por consulta (from..to, inclusive)
+const norm = (s?: string) => (s || "").normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase().trim();
+
+// percorre o índice por dia, então não precisa listar chaves do Store
+export async function searchOrders(f: OrderFilter): Promise<Order[]> {
+  const out: Order[] = [];
+  for (let day = f.from, i = 0; day <= f.to && i < MAX_RANGE_DAYS; day = addDaysISO(day, 1), i++) {
+    for (const o of await listOrdersByDay(day)) {
+      if (f.status?.length && !f.status.includes(o.status)) continue;
+      if (f.localidade && norm(o.address.localidade) !== norm(f.localidade)) continue;
+      if (f.label && !o.items.some((it) => it.item.label === f.label)) continue;
+      out.push(o);
+    }
+  }
+  return out.sort((a, b) =>
+    `${a.schedule.day}T${a.schedule.time}`.localeCompare(`${b.schedule.day}T${b.schedule.time}`));
+}
+// compare-and-set: mudança da equipe e cancelamento/reagendamento do cidadão ao mesmo tempo
+// não se sobrescrevem; a transição é validada contra o status atual a cada tentativa
+export async function updateOrder(protocol: string, patch: Partial<Order>): Promise<Order | undefined> {
+  let o: Order | undefined;
+  const saved = await casUpdate<Order>(orderKey(protocol), (cur) => {
+    o = cur;
+    if (!cur) return undefined;
+    if (patch.status && patch.status !== cur.status && !ORDER_TRANSITIONS[cur.status].includes(patch.status)) {
+      console.warn("[ORDER] transição inválida", protocol, cur.status, "->", patch.status);
+      return undefined;
+    }
+    const next = { ...cur, ...patch, updatedAt: new Date().toISOString() };
+    return { ...next, user: sealUser(next.user)! };
+  });
+  if (!saved || !o) return undefined;
+  const no = { ...saved, user: openUser(saved.user)! };
+  if (no.schedule.day !== o.schedule.day) {
+    await removeFromIndex(dayOrdersKey(o.schedule.day), protocol);
+    await addToIndex(dayOrdersKey(no.schedule.day), protocol);
+  }
+  return no;
+}
+
+// ---------- Capacidade por horário ----------
+// SLOT_CAPACITY: coletas por dia/horário (padrão 5)
+// SLOT_CAPACITY_OVERRIDES: JSON por "HH:MM" ou "AAAA-MM-DDTHH:MM", ex.: {"18:00":2,"2025-12-24T14:00":0}
+const SLOT_CAPACITY = Number(process.env.SLOT_CAPACITY || 5);
+const SLOT_CAPACITY_OVERRIDES: Record<string, number> = (() => {
+  try { return JSON.parse(process.env.SLOT_CAPACITY_OVERRIDES || "{}"); }
+  catch { console.error("[SLOT] SLOT_CAPACITY_OVERRIDES inválido, ignorando."); return {}; }
+})();
+const SLOT_TTL = 60 * 60 * 24 * 30; // 30 dias
+
+const slotKey = (dayISO: string, time: string) => `ecoleta:slot:${dayISO}T${time}`;
+export function slotCapacity(dayISO: string, time: string) {
+  return SLOT_CAPACITY_OVERRIDES[`${dayISO}T${time}`] ?? SLOT_CAPACITY_OVERRIDES[time] ?? SLOT_CAPACITY;
+}
+export async function slotUsage(dayISO: string, time: string): Promise<number> {
+  return Number(await store.get<number>(slotKey(dayISO, time))) || 0;
+}
+// Reserva atômica: incrementa e desfaz se passou da capacidade.
+// Duas invocações concorrentes nunca conseguem a última vaga ao mesmo tempo.
+export async function reserveSlot(dayISO: string, time: string): Promise<boolean> {
+  const used = await store.incr(slotKey(dayISO, time), 1, SLOT_TTL);
+  if (used <= slotCapacity(dayISO, time)) return true;
+  await store.incr(slotKey(dayISO, time), -1, SLOT_TTL);
+  return false;
+}
+export async function releaseSlot(dayISO: string, time: string) {
+  try {
+    const left = await store.incr(slotKey(dayISO, time), -1, SLOT_TTL);
+    if (left < 0) await store.incr(slotKey(dayISO, time), -left, SLOT_TTL);
+  } catch (e) {
+    console.error("[SLOT] falha ao liberar", dayISO, time, e);
+  }
+}
+
+// ---------- Avisos ao cidadão ----------
+// TELEGRAM_API_ROOT: servidor da Bot API (padrão o oficial; o replay local aponta para um falso)
+export const TELEGRAM_API_ROOT = process.env.TELEGRAM_API_ROOT || "https://api.telegram.org";
+// Api "solta" (sem Bot) para poder avisar também a partir das rotas REST
+export const telegram = process.env.TELEGRAM_TOKEN
+  ? new Api(process.env.TELEGRAM_TOKEN, { apiRoot: TELEGRAM_API_ROOT })
+  : undefined;
+
+// mensagem enviada ao cidadão a cada mudança de status feita pela equipe, no idioma do pedido
+export async function notifyCitizen(o: Order) {
+  const m = t(o.locale);
+  const notice = m.notice[o.status];
+  if (!notice || !o.chatId || !telegram) return;
+  try {
+    await telegram.sendMessage(o.chatId, `${notice}\n${m.field.protocol}: *${o.protocol}*`, { parse_mode: "Markdown" });
+  } catch (e) {
+    console.error("[OPERATOR] falha ao notificar", o.protocol, e);
+  }
+}
@@ -0,0 +1,249 @@
+// api/_lib/qrcode.ts — gerador de QR code (modo byte, correção nível M, versões 1–10), sem dependências
+// Devolve a matriz de módulos (true = escuro); quem desenha é o comprovante (receipt.ts).
+
+// nível M, por versão: codewords de correção por bloco e grupos [blocos, codewords de dados por bloco]
+const EC_BLOCKS: { ec: number; groups: [number, number][] }[] = [
+  { ec: 10, groups: [[1, 16]] }, { ec: 16, groups: [[1, 28]] }, { ec: 26, groups: [[1, 44]] },
+  { ec: 18, groups: [[2, 32]] }, { ec: 24, groups: [[2, 43]] }, { ec: 16, groups: [[4, 27]] },
+  { ec: 18, groups: [[4, 31]] }, { ec: 22, groups: [[2, 38], [2, 39]] }, { ec: 22, groups: [[3, 36], [2, 37]] },
+  { ec: 26, groups: [[4, 43], [1, 44]] },
+];
+const ALIGNMENT: number[][] = [
+  [], [6, 18], [6, 22], [6, 26], [6, 30], [6, 34], [6, 22, 38], [6, 24, 42], [6, 26, 46], [6, 28, 50],
+];
+const MAX_VERSION = EC_BLOCKS.length;
+
+const dataCodewords = (v: number) => EC_BLOCKS[v - 1].groups.reduce((n, [count, len]) => n + count * len, 0);
+const countBits = (v: number) => (v < 10 ? 8 : 16);
+const bit = (x: number, i: number) => ((x >>> i) & 1) !== 0;
+
+// ---------- Reed-Solomon em GF(256), polinômio 0x11D ----------
+function gfMul(x: number, y: number) {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+function rsDivisor(degree: number) {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMul(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMul(root, 0x02);
+  }
+  return result;
+}
+function rsRemainder(data: number[], divisor: number[]) {
+  const result = new Array<number>(divisor.length).fill(0);
+  for (const b of data) {
+    const factor = b ^ result.shift()!;
+    result.push(0);
+    divisor.forEach((coef, i) => (result[i] ^= gfMul(coef, factor)));
+  }
+  return result;
+}
+
+// dados + correção, divididos em blocos e intercalados
+function encodeCodewords(bytes: Buffer, version: number) {
+  const capacity = dataCodewords(version) * 8;
+  const bits: number[] = [];
+  const push = (value: number, len: number) => { for (let i = len - 1; i >= 0; i--) bits.push((value >>> i) & 1); };
+  push(0b0100, 4); // modo byte
+  push(bytes.length, countBits(version));
+  for (const b of bytes) push(b, 8);
+  push(0, Math.min(4, capacity - bits.length));
+  push(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) push(pad, 8);
+
+  const data: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) data.push(bits.slice(i, i + 8).reduce((n, b) => (n << 1) | b, 0));
+
+  const { ec: ecLen, groups } = EC_BLOCKS[version - 1];
+  const divisor = rsDivisor(ecLen);
+  const blocks: { data: number[]; ec: number[] }[] = [];
+  let k = 0;
+  for (const [count, len] of groups) {
+    for (let i = 0; i < count; i++, k += len) {
+      const chunk = data.slice(k, k + len);
+      blocks.push({ data: chunk, ec: rsRemainder(chunk, divisor) });
+    }
+  }
+  const out: number[] = [];
+  const maxData = Math.max(...blocks.map((b) => b.data.length));
+  for (let i = 0; i < maxData; i++) for (const b of blocks) if (i < b.data.length) out.push(b.data[i]);
+  for (let i = 0; i < ecLen; i++) for (const b of blocks) out.push(b.ec[i]);
+  return out;
+}
+
+// ---------- matriz ----------
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+class Matrix {
+  readonly size: number;
+  readonly dark: boolean[][];
+  readonly fixed: boolean[][];
+
+  constructor(readonly version: number) {
+    this.size = version * 4 + 17;
+    this.dark = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.fixed = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.drawFunctionPatterns();
+  }
+
+  private set(x: number, y: number, dark: boolean) {
+    this.dark[y][x] = dark;
+    this.fixed[y][x] = true;
+  }
+
+  private drawFunctionPatterns() {
+    const { size } = this;
+    for (let i = 0; i < size; i++) {
+      this.set(6, i, i % 2 === 0);
+      this.set(i, 6, i % 2 === 0);
+    }
+    for (const [cx, cy] of [[3, 3], [size - 4, 3], [3, size - 4]]) {
+      for (let dy = -4; dy <= 4; dy++) {
+        for (let dx = -4; dx <= 4; dx++) {
+          const dist = Math.max(Math.abs(dx), Math.abs(dy));
+          const x = cx + dx, y = cy + dy;
+          if (x >= 0 && x < size && y >= 0 && y < size) this.set(x, y, dist !== 2 && dist !== 4);
+        }
+      }
+    }
+    const pos = ALIGNMENT[this.version - 1];
+    const n = pos.length;
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j < n; j++) {
+        if ((i === 0 && j === 0) || (i === 0 && j === n - 1) || (i === n - 1 && j === 0)) continue;
+        for (let dy = -2; dy <= 2; dy++) {
+          for (let dx = -2; dx <= 2; dx++) this.set(pos[i] + dx, pos[j] + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+        }
+      }
+    }
+    this.drawFormat(0); // reserva a área; redesenhada com a máscara escolhida
+    this.drawVersion();
+  }
+
+  // nível M = 00; BCH(15,5) com 0x537 e máscara 0x5412
+  drawFormat(mask: number) {
+    const data = mask;
+    let rem = data;
+    for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+    const bits = ((data << 10) | rem) ^ 0x5412;
+    const { size } = this;
+    for (let i = 0; i <= 5; i++) this.set(8, i, bit(bits, i));
+    this.set(8, 7, bit(bits, 6));
+    this.set(8, 8, bit(bits, 7));
+    this.set(7, 8, bit(bits, 8));
+    for (let i = 9; i < 15; i++) this.set(14 - i, 8, bit(bits, i));
+    for (let i = 0; i < 8; i++) this.set(size - 1 - i, 8, bit(bits, i));
+    for (let i = 8; i < 15; i++) this.set(8, size - 15 + i, bit(bits, i));
+    this.set(8, size - 8, true);
+  }
+
+  // versões 7+: BCH(18,6) com 0x1F25
+  private drawVersion() {
+    if (this.version < 7) return;
+    let rem = this.version;
+    for (let i = 0; i < 12; i++) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+    const bits = (this.version << 12) | rem;
+    for (let i = 0; i < 18; i++) {
+      const a = this.size - 11 + (i % 3), b = Math.floor(i / 3);
+      this.set(a, b, bit(bits, i));
+      this.set(b, a, bit(bits, i));
+    }
+  }
+
+  // zigue-zague em colunas duplas, da direita para a esquerda, pulando a coluna de timing
+  drawCodewords(data: number[]) {
+    const { size } = this;
+    let i = 0;
+    for (let right = size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5;
+      for (let vert = 0; vert < size; vert++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          const y = ((right + 1) & 2) === 0 ? size - 1 - vert : vert;
+          if (!this.fixed[y][x] && i < data.length * 8) {
+            this.dark[y][x] = bit(data[i >>> 3], 7 - (i & 7));
+            i++;
+          }
+        }
+      }
+    }
+  }
+
+  applyMask(mask: number) {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.fixed[y][x] && MASKS[mask](x, y)) this.dark[y][x] = !this.dark[y][x];
+      }
+    }
+  }
+
+  // penalidades 1 (sequências), 2 (blocos 2x2) e 4 (equilíbrio claro/escuro) da norma;
+  // a 3 (padrões parecidos com os localizadores) fica de fora: qualquer máscara é legível
+  penalty() {
+    const { size, dark } = this;
+    let score = 0;
+    for (let a = 0; a < size; a++) {
+      let runRow = 1, runCol = 1;
+      for (let b = 1; b < size; b++) {
+        if (dark[a][b] === dark[a][b - 1]) runRow++;
+        else { if (runRow >= 5) score += runRow - 2; runRow = 1; }
+        if (dark[b][a] === dark[b - 1][a]) runCol++;
+        else { if (runCol >= 5) score += runCol - 2; runCol = 1; }
+      }
+      if (runRow >= 5) score += runRow - 2;
+      if (runCol >= 5) score += runCol - 2;
+    }
+    let darkCount = 0;
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        if (dark[y][x]) darkCount++;
+        if (x < size - 1 && y < size - 1) {
+          const c = dark[y][x];
+          if (c === dark[y][x + 1] && c === dark[y + 1][x] && c === dark[y + 1][x + 1]) score += 3;
+        }
+      }
+    }
+    const total = size * size;
+    score += Math.ceil(Math.abs(darkCount * 20 - total * 10) / total - 1) * 10;
+    return score;
+  }
+}
+
+export function qrMatrix(text: string): boolean[][] {
+  const bytes = Buffer.from(text, "utf8");
+  let version = 1;
+  while (version <= MAX_VERSION && 4 + countBits(version) + bytes.length * 8 > dataCodewords(version) * 8) version++;
+  if (version > MAX_VERSION) throw new Error(`texto grande demais para o QR code (${bytes.length} bytes)`);
+
+  const codewords = encodeCodewords(bytes, version);
+  let best: Matrix | undefined;
+  let bestScore = Infinity;
+  for (let mask = 0; mask < MASKS.length; mask++) {
+    const m = new Matrix(version);
+    m.drawCodewords(codewords);
+    m.applyMask(mask);
+    m.drawFormat(mask);
+    const score = m.penalty();
+    if (score < bestScore) { best = m; bestScore = score; }
+  }
+  return best!.dark;
+}
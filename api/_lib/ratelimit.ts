@@ -0,0 +1,46 @@
+// api/_lib/ratelimit.ts — janelas fixas por chat, com contador atômico no Store
+import { store } from "./store.js";
+
+export class RateLimitError extends Error {}
+
+// conta um evento na janela atual; em falha do Store deixa passar (fail-open)
+export async function hit(bucket: string, id: number | string, limit: number, windowSec: number) {
+  const window = Math.floor(Date.now() / 1000 / windowSec);
+  try {
+    const count = await store.incr(`ecoleta:rl:${bucket}:${id}:${window}`, 1, windowSec);
+    return { allowed: count <= limit, count };
+  } catch (e) {
+    console.error("[RATELIMIT] falha no store:", e);
+    return { allowed: true, count: 0 };
+  }
+}
+
+// update_id já visto? Telegram reenvia updates quando o webhook falha ou estoura o tempo.
+// A marca nasce provisória (dura o maxDuration de 10s: cobre só o tratamento em andamento) e só vale
+// por um dia depois de markUpdateHandled; em erro, forgetUpdate libera a reentrega.
+const UPDATE_LEASE_SEC = 10;
+const UPDATE_SEEN_TTL = 60 * 60 * 24;
+const updateKey = (updateId: number) => `ecoleta:update:${updateId}`;
+
+export async function isDuplicateUpdate(updateId: number) {
+  try {
+    return (await store.incr(updateKey(updateId), 1, UPDATE_LEASE_SEC)) > 1;
+  } catch (e) {
+    console.error("[DEDUP] falha no store:", e);
+    return false;
+  }
+}
+export async function markUpdateHandled(updateId: number) {
+  try {
+    await store.set(updateKey(updateId), 1, UPDATE_SEEN_TTL);
+  } catch (e) {
+    console.error("[DEDUP] falha no store:", e);
+  }
+}
+export async function forgetUpdate(updateId: number) {
+  try {
+    await store.del(updateKey(updateId));
+  } catch (e) {
+    console.error("[DEDUP] falha no store:", e);
+  }
+}
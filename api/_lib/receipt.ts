@@ -0,0 +1,194 @@
+// api/_lib/receipt.ts — comprovante do agendamento: convite .ics e PDF com QR code, gerados localmente
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { formatDay, slotInstant } from "./calendar.js";
+import { formatAddressPT, itemName } from "./format.js";
+import { maskCPF, maskName, maskPhone } from "./lgpd.js";
+import { t } from "./i18n.js";
+import { qrMatrix } from "./qrcode.js";
+import type { Order } from "./types.js";
+
+// ---------- QR da equipe ----------
+// RECEIPT_SECRET: assina o link do QR (padrão: TELEGRAM_WEBHOOK_SECRET). Trocar o segredo invalida os comprovantes já emitidos.
+const RECEIPT_SECRET = process.env.RECEIPT_SECRET || process.env.TELEGRAM_WEBHOOK_SECRET || "";
+
+const pickupSig = (protocol: string) => createHmac("sha256", RECEIPT_SECRET).update(protocol).digest("hex").slice(0, 16);
+
+// payload do /start (máx. 64 caracteres: só letras, números, _ e -)
+export const pickupPayload = (protocol: string) => `pickup_${protocol}_${pickupSig(protocol)}`;
+// a câmera do celular abre o bot com /start <payload>; só operadores veem o pedido
+export const pickupLink = (botUsername: string, protocol: string) => `https://t.me/${botUsername}?start=${pickupPayload(protocol)}`;
+
+// devolve o protocolo se o payload for um QR de coleta com assinatura válida
+export function parsePickupPayload(payload: string): string | undefined {
+  const m = payload.trim().match(/^pickup_([A-Z0-9-]+)_([0-9a-f]{16})$/);
+  if (!m) return undefined;
+  const [got, want] = [Buffer.from(m[2]), Buffer.from(pickupSig(m[1]))];
+  return timingSafeEqual(got, want) ? m[1] : undefined;
+}
+export const isPickupPayload = (payload: string) => payload.trim().startsWith("pickup_");
+
+// ---------- Convite .ics (RFC 5545) ----------
+const SLOT_MINUTES = 120; // janela de cada horário de coleta
+
+const icsDate = (d: Date) => d.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+const icsText = (s: string) =>
+  s.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+// linhas de no máximo 75 octetos; a continuação começa com espaço
+function fold(line: string) {
+  const out: string[] = [];
+  let cur = "";
+  for (const ch of line) {
+    if (Buffer.byteLength(cur + ch) > (out.length ? 74 : 75)) { out.push(cur); cur = ""; }
+    cur += ch;
+  }
+  out.push(cur);
+  return out.join("\r\n ");
+}
+
+const itemLines = (o: Order) => o.items.map((it) => `${it.qty}× ${itemName(it.item.label, o.locale)}`);
+
+// Mesmo UID a cada envio: reagendar atualiza o evento na agenda em vez de duplicar.
+export function orderIcs(o: Order, now = new Date()): Buffer {
+  const m = t(o.locale);
+  const start = slotInstant(o.schedule.day, o.schedule.time);
+  const end = new Date(start.getTime() + SLOT_MINUTES * 60_000);
+  const sequence = o.updatedAt ? Math.floor((Date.parse(o.updatedAt) - Date.parse(o.createdAt)) / 1000) : 0;
+  const description = [`${m.field.protocol}: ${o.protocol}`, `${m.field.items}:`, ...itemLines(o).map((i) => `• ${i}`)];
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//E-Coleta//ecoleta-telebot//PT",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "BEGIN:VEVENT",
+    `UID:${o.protocol}@ecoleta`,
+    `DTSTAMP:${icsDate(now)}`,
+    `SEQUENCE:${Math.max(0, sequence)}`,
+    `DTSTART:${icsDate(start)}`,
+    `DTEND:${icsDate(end)}`,
+    `SUMMARY:${icsText(m.receipt.eventTitle(o.protocol))}`,
+    `LOCATION:${icsText(formatAddressPT(o.address))}`,
+    ...(o.location ? [`GEO:${o.location.lat};${o.location.lng}`] : []),
+    `DESCRIPTION:${icsText(description.join("\n"))}`,
+    "BEGIN:VALARM",
+    "ACTION:DISPLAY",
+    `DESCRIPTION:${icsText(m.receipt.eventTitle(o.protocol))}`,
+    "TRIGGER:-PT1H",
+    "END:VALARM",
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ];
+  return Buffer.from(`${lines.map(fold).join("\r\n")}\r\n`, "utf8");
+}
+
+// ---------- PDF do comprovante ----------
+// PDF 1.4 escrito à mão: uma página A6, fontes padrão (Helvetica) e o QR em retângulos.
+const PAGE_W = 298, PAGE_H = 420, MARGIN = 24;
+
+// WinAnsiEncoding: Latin-1 direto, alguns símbolos na faixa 0x80–0x9F e "?" para o resto (emoji etc.)
+const WIN_ANSI: Record<string, number> = {
+  "€": 0x80, "…": 0x85, "‘": 0x91, "’": 0x92, "“": 0x93, "”": 0x94, "•": 0x95, "–": 0x96, "—": 0x97,
+};
+function pdfText(s: string) {
+  let out = "";
+  for (const ch of s) {
+    const code = WIN_ANSI[ch] ?? ch.codePointAt(0)!;
+    const byte = code < 0x80 || (code >= 0xa0 && code <= 0xff) || WIN_ANSI[ch] ? code : 0x3f;
+    const c = String.fromCharCode(byte);
+    out += c === "(" || c === ")" || c === "\\" ? `\\${c}` : c;
+  }
+  return `(${out})`;
+}
+
+// quebra por largura média da Helvetica (~0,52 em); suficiente para endereço e itens
+function wrap(text: string, size: number, width = PAGE_W - 2 * MARGIN) {
+  const max = Math.floor(width / (size * 0.52));
+  const lines: string[] = [];
+  let cur = "";
+  for (const word of text.split(/\s+/)) {
+    if (cur && cur.length + 1 + word.length > max) { lines.push(cur); cur = word; }
+    else cur = cur ? `${cur} ${word}` : word;
+  }
+  if (cur) lines.push(cur);
+  return lines;
+}
+
+function pdfDocument(content: string) {
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_W} ${PAGE_H}] ` +
+      "/Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents 6 0 R >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+  ];
+  // tudo em latin1: um caractere = um byte, então os offsets do xref são comprimentos de string
+  let pdf = "%PDF-1.4\n%\xe2\xe3\xcf\xd3\n";
+  const offsets = objects.map((obj, i) => {
+    const at = pdf.length;
+    pdf += `${i + 1} 0 obj\n${obj}\nendobj\n`;
+    return at;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((o) => `${String(o).padStart(10, "0")} 00000 n \n`).join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(pdf, "latin1");
+}
+
+// QR desenhado como retângulos pretos, juntando módulos vizinhos da mesma linha
+function qrOps(text: string, x: number, y: number, size: number) {
+  const matrix = qrMatrix(text);
+  const n = matrix.length;
+  const cell = size / n;
+  const ops = ["0 0 0 rg"];
+  matrix.forEach((row, r) => {
+    for (let c = 0; c < n; c++) {
+      if (!row[c]) continue;
+      let end = c;
+      while (end + 1 < n && row[end + 1]) end++;
+      ops.push(`${(x + c * cell).toFixed(2)} ${(y + (n - 1 - r) * cell).toFixed(2)} ${((end - c + 1) * cell).toFixed(2)} ${cell.toFixed(2)} re`);
+      c = end;
+    }
+  });
+  ops.push("f");
+  return ops.join("\n");
+}
+
+// Dados pessoais mascarados: o comprovante pode ser encaminhado ou impresso.
+export function orderReceiptPdf(o: Order, qrText: string): Buffer {
+  const m = t(o.locale);
+  const ops: string[] = [];
+  let y = PAGE_H - MARGIN;
+  const text = (s: string, size: number, bold = false) => {
+    y -= size + 3;
+    ops.push(`BT /${bold ? "F2" : "F1"} ${size} Tf ${MARGIN} ${y} Td ${pdfText(s)} Tj ET`);
+  };
+  const field = (label: string, value: string) => {
+    text(label, 7, true);
+    for (const line of wrap(value, 9)) text(line, 9);
+    y -= 2;
+  };
+
+  text("E-Coleta", 16, true);
+  text(m.receipt.title, 10);
+  y -= 4;
+  ops.push(`0.6 g ${MARGIN} ${y} ${PAGE_W - 2 * MARGIN} 0.5 re f 0 g`);
+  y -= 4;
+  text(`${m.field.protocol}: ${o.protocol}`, 12, true);
+  y -= 4;
+  field(m.field.name, maskName(o.user.name));
+  field(`${m.field.cpf} / ${m.field.phone}`, `${maskCPF(o.user.cpf)}  •  ${maskPhone(o.user.phone)}`);
+  field(m.field.schedule, `${formatDay(o.schedule.day, { dateStyle: "full" }, o.locale)} ${m.at} ${o.schedule.time}`);
+  field(m.field.address, formatAddressPT(o.address));
+  field(m.field.items, itemLines(o).join(", "));
+
+  const qrSize = Math.min(130, y - MARGIN - 24);
+  ops.push(qrOps(qrText, (PAGE_W - qrSize) / 2, MARGIN + 20, qrSize));
+  for (const [i, line] of wrap(m.receipt.scanHint, 8).entries()) {
+    ops.push(`BT /F1 8 Tf ${MARGIN} ${MARGIN + 8 - i * 10} Td ${pdfText(line)} Tj ET`);
+  }
+  return pdfDocument(ops.join("\n"));
+}
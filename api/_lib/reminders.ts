@@ -0,0 +1,83 @@
+// api/_lib/reminders.ts — lembretes de véspera e do dia, idempotentes
+import { InlineKeyboard } from "grammy";
+import { store } from "./store.js";
+import { addDaysISO, formatDay, localDayISO, slotInstant, zonedParts } from "./calendar.js";
+import { isOpenOrder, listOrdersByDay, telegram } from "./orders.js";
+import { formatAddressPT, itemName } from "./format.js";
+import { t } from "./i18n.js";
+import type { Order } from "./types.js";
+
+// REMINDER_HOURS: janela do lembrete no dia da coleta (padrão 3h antes)
+const REMINDER_HOURS = Number(process.env.REMINDER_HOURS ?? 3);
+// REMINDER_HOUR / REMINDER_LAST_HOUR: janela, em hora local (SCHEDULE_TZ), do lembrete de véspera (padrão 18h–21h).
+// O cron roda de hora em hora; fora da janela só sai o lembrete do dia.
+const REMINDER_HOUR = Number(process.env.REMINDER_HOUR ?? 18);
+const REMINDER_LAST_HOUR = Number(process.env.REMINDER_LAST_HOUR ?? 21);
+const REMINDER_TTL = 60 * 60 * 24 * 3;
+
+type ReminderKind = "vespera" | "dia";
+
+// inclui o horário na chave: um pedido reagendado recebe novo lembrete
+const reminderKey = (o: Order, kind: ReminderKind) =>
+  `ecoleta:reminder:${o.protocol}:${kind}:${o.schedule.day}T${o.schedule.time}`;
+
+// textos no idioma salvo no pedido (pedidos antigos: pt-BR)
+function kbReminder(o: Order) {
+  const m = t(o.locale);
+  return new InlineKeyboard()
+    .text(m.confirmPresence, `order:confirm:${o.protocol}`).row()
+    .text(m.reschedule, `order:resched:${o.protocol}`)
+    .text(m.cancelShort, `order:cancel:${o.protocol}`);
+}
+
+function reminderText(o: Order, kind: ReminderKind) {
+  const m = t(o.locale);
+  return [
+    m.reminder(kind, formatDay(o.schedule.day, undefined, o.locale), o.schedule.time),
+    `${m.field.protocol}: *${o.protocol}*`,
+    ...o.items.map((it) => `• ${it.qty}× ${itemName(it.item.label, o.locale)}`),
+    `• ${formatAddressPT(o.address)}`,
+    "",
+    m.willYouBeThere,
+  ].join("\n");
+}
+
+// INCR atômico: só a primeira execução que "pega" a chave envia a mensagem
+async function claim(o: Order, kind: ReminderKind) {
+  return (await store.incr(reminderKey(o, kind), 1, REMINDER_TTL)) === 1;
+}
+
+async function send(o: Order, kind: ReminderKind) {
+  if (!telegram || !(await claim(o, kind))) return false;
+  try {
+    await telegram.sendMessage(o.chatId, reminderText(o, kind), {
+      parse_mode: "Markdown", reply_markup: kbReminder(o),
+    });
+    return true;
+  } catch (e) {
+    // libera para a próxima execução tentar de novo
+    await store.del(reminderKey(o, kind));
+    console.error("[REMINDER] falha ao enviar", o.protocol, kind, e);
+    return false;
+  }
+}
+
+export async function runReminders(now = new Date()) {
+  const today = localDayISO(now);
+  const tomorrow = addDaysISO(today, 1);
+  const result = { vespera: 0, dia: 0, skipped: 0 };
+
+  const hour = zonedParts(now).hour;
+  if (hour >= REMINDER_HOUR && hour <= REMINDER_LAST_HOUR) {
+    for (const o of (await listOrdersByDay(tomorrow)).filter(isOpenOrder)) {
+      if (await send(o, "vespera")) result.vespera++; else result.skipped++;
+    }
+  }
+  for (const o of (await listOrdersByDay(today)).filter(isOpenOrder)) {
+    const msLeft = slotInstant(o.schedule.day, o.schedule.time).getTime() - now.getTime();
+    if (msLeft <= 0 || msLeft > REMINDER_HOURS * 3600_000) continue;
+    if (await send(o, "dia")) result.dia++; else result.skipped++;
+  }
+  console.log("[REMINDER]", today, result);
+  return result;
+}
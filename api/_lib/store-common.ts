@@ -0,0 +1,36 @@
+// api/_lib/store-common.ts — contrato comum a todos os backends de persistência
+export const DEFAULT_TTL = 60 * 60 * 2; // 2h
+
+export type Store = {
+  get<T>(key: string): Promise<T | undefined>;
+  set<T>(key: string, value: T, ttlSec?: number): Promise<void>;
+  // incremento atômico (INCRBY); lança erro se o backend falhar
+  incr(key: string, by?: number, ttlSec?: number): Promise<number>;
+  del(key: string): Promise<void>;
+  // chaves vivas (não expiradas) que começam com o prefixo
+  keys(prefix: string): Promise<string[]>;
+  // leitura com versão, para compare-and-set (versão 0 = chave nunca gravada por setVersioned)
+  getVersioned<T>(key: string): Promise<{ value?: T; version: number }>;
+  // grava só se a versão atual for `expected` (null = incondicional); false em conflito
+  setVersioned<T>(key: string, value: T, expected: number | null, ttlSec?: number): Promise<boolean>;
+  // encerra conexões e gravações pendentes (scripts; as funções do bot não chamam)
+  close?(): Promise<void>;
+};
+
+export const versionKey = (key: string) => `${key}:ver`;
+
+// INCRBY com TTL só quando a chave ainda não tem um (EXPIRE NX exige Redis 7); KEYS = [contador]; ARGV = [incremento, ttl]
+export const INCR_SCRIPT = `
+local n = redis.call('INCRBY', KEYS[1], ARGV[1])
+if redis.call('TTL', KEYS[1]) < 0 then redis.call('EXPIRE', KEYS[1], ARGV[2]) end
+return n
+`;
+
+// compare-and-set: KEYS = [valor, versão]; ARGV = [versão esperada ("" = qualquer), json, ttl]
+export const CAS_SCRIPT = `
+local v = tonumber(redis.call('GET', KEYS[2]) or '0')
+if ARGV[1] ~= '' and v ~= tonumber(ARGV[1]) then return 0 end
+redis.call('SET', KEYS[1], ARGV[2], 'EX', ARGV[3])
+redis.call('SET', KEYS[2], v + 1, 'EX', ARGV[3])
+return 1
+`;
@@ -0,0 +1,78 @@
+// api/_lib/store-contract.ts — verificações que todo backend de Store precisa cumprir
+// Completo em `npm run store-contract` (todos os backends); o /kvtest roda só as rápidas no Store ativo.
+import type { Store } from "./store-common.js";
+
+export type ContractResult = { name: string; ok: boolean; error?: string };
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+function assert(cond: unknown, msg: string): asserts cond {
+  if (!cond) throw new Error(msg);
+}
+
+// [nome, verificação, lenta?]
+const CHECKS: [string, (s: Store, p: string) => Promise<void>, boolean?][] = [
+  ["set/get preserva objetos", async (s, p) => {
+    const value = { a: 1, b: "ç", c: [true, null] };
+    await s.set(`${p}obj`, value, 60);
+    assert(JSON.stringify(await s.get(`${p}obj`)) === JSON.stringify(value), "valor lido difere do gravado");
+  }],
+  ["get de chave ausente é undefined", async (s, p) => {
+    assert((await s.get(`${p}nada`)) === undefined, "esperava undefined");
+  }],
+  ["TTL expira a chave", async (s, p) => {
+    await s.set(`${p}ttl`, "x", 1);
+    await sleep(2100);
+    assert((await s.get(`${p}ttl`)) === undefined, "chave não expirou");
+  }, true],
+  ["del remove a chave", async (s, p) => {
+    await s.set(`${p}del`, 1, 60);
+    await s.del(`${p}del`);
+    assert((await s.get(`${p}del`)) === undefined, "chave continua lá");
+  }],
+  ["incr é atômico sob concorrência", async (s, p) => {
+    await Promise.all(Array.from({ length: 20 }, () => s.incr(`${p}ctr`, 1, 60)));
+    assert((await s.incr(`${p}ctr`, -1, 60)) === 19, "contagem final incorreta");
+  }],
+  ["incr define o TTL na criação e não o renova", async (s, p) => {
+    await s.incr(`${p}ctr:ttl`, 1, 2);
+    await sleep(1100);
+    assert((await s.incr(`${p}ctr:ttl`, 1, 60)) === 2, "contador perdeu o valor antes do TTL");
+    await sleep(1100);
+    assert((await s.incr(`${p}ctr:ttl`, 1, 60)) === 1, "contador não expirou (TTL ausente ou renovado)");
+  }, true],
+  ["keys lista por prefixo", async (s, p) => {
+    await Promise.all([s.set(`${p}k:a`, 1, 60), s.set(`${p}k:b`, 2, 60), s.set(`${p}outra`, 3, 60)]);
+    const keys = (await s.keys(`${p}k:`)).sort();
+    assert(JSON.stringify(keys) === JSON.stringify([`${p}k:a`, `${p}k:b`]), `keys = ${JSON.stringify(keys)}`);
+  }],
+  ["setVersioned rejeita versão desatualizada", async (s, p) => {
+    const { version } = await s.getVersioned(`${p}cas`);
+    assert(await s.setVersioned(`${p}cas`, { n: 1 }, version, 60), "primeira gravação falhou");
+    assert(!(await s.setVersioned(`${p}cas`, { n: 2 }, version, 60)), "aceitou versão antiga");
+    const cur = await s.getVersioned<{ n: number }>(`${p}cas`);
+    assert(cur.value?.n === 1 && cur.version === version + 1, "valor/versão inesperados");
+  }],
+  ["setVersioned concorrente: só um vence", async (s, p) => {
+    const { version } = await s.getVersioned(`${p}race`);
+    const wins = await Promise.all(Array.from({ length: 5 }, (_, i) => s.setVersioned(`${p}race`, i, version, 60)));
+    assert(wins.filter(Boolean).length === 1, `${wins.filter(Boolean).length} gravações venceram`);
+  }],
+];
+
+// quick: pula as verificações lentas (TTL espera 2s), para rodar dentro do webhook
+export async function runStoreContract(store: Store, { quick = false } = {}): Promise<ContractResult[]> {
+  const prefix = `ecoleta:contract:${Date.now()}:${Math.random().toString(36).slice(2, 6)}:`;
+  const results: ContractResult[] = [];
+  for (const [name, check, slow] of CHECKS) {
+    if (quick && slow) continue;
+    try {
+      await check(store, prefix);
+      results.push({ name, ok: true });
+    } catch (e: any) {
+      results.push({ name, ok: false, error: e?.message || String(e) });
+    }
+  }
+  for (const key of await store.keys(prefix).catch(() => [])) await store.del(key).catch(() => {});
+  return results;
+}
@@ -0,0 +1,86 @@
+// api/_lib/store-file.ts — arquivo JSON local, para auto-hospedagem em um único processo
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { DEFAULT_TTL, type Store, versionKey } from "./store-common.js";
+
+type Entry = { v: unknown; exp: number };
+
+// Todas as operações passam por uma fila: leitura-modificação-escrita é atômica no processo.
+// Não compartilhe o mesmo arquivo entre processos (use Redis nesse caso).
+export function fileStore(path: string): Store {
+  console.log("[STORE] usando arquivo local:", path);
+  let db: Map<string, Entry> | undefined;
+  let queue: Promise<unknown> = Promise.resolve();
+
+  async function load() {
+    if (db) return db;
+    try {
+      db = new Map(Object.entries(JSON.parse(await readFile(path, "utf8")) as Record<string, Entry>));
+    } catch (e: any) {
+      if (e?.code !== "ENOENT") console.error("[FILE] falha ao ler, iniciando vazio:", e);
+      db = new Map();
+    }
+    return db;
+  }
+  async function save(m: Map<string, Entry>) {
+    const now = Date.now();
+    for (const [k, { exp }] of m) if (now > exp) m.delete(k);
+    await mkdir(dirname(path), { recursive: true });
+    const tmp = `${path}.${process.pid}.tmp`;
+    await writeFile(tmp, JSON.stringify(Object.fromEntries(m)));
+    await rename(tmp, path); // troca atômica: nunca deixa o arquivo pela metade
+  }
+  function run<R>(fn: (m: Map<string, Entry>) => R, write = false): Promise<R> {
+    const next = queue.then(async () => {
+      const m = await load();
+      const out = fn(m);
+      if (write) await save(m);
+      return out;
+    });
+    queue = next.catch(() => undefined);
+    return next;
+  }
+  const alive = (m: Map<string, Entry>, key: string) => {
+    const hit = m.get(key);
+    return hit && Date.now() <= hit.exp ? hit : undefined;
+  };
+
+  return {
+    get<T>(key: string) {
+      return run((m) => alive(m, key)?.v as T | undefined);
+    },
+    set<T>(key: string, value: T, ttlSec = DEFAULT_TTL) {
+      return run((m) => { m.set(key, { v: value, exp: Date.now() + ttlSec * 1000 }); }, true);
+    },
+    incr(key: string, by = 1, ttlSec = DEFAULT_TTL) {
+      return run((m) => {
+        const hit = alive(m, key);
+        const n = (Number(hit?.v) || 0) + by;
+        m.set(key, { v: n, exp: hit?.exp ?? Date.now() + ttlSec * 1000 });
+        return n;
+      }, true);
+    },
+    del(key: string) {
+      return run((m) => { m.delete(key); }, true);
+    },
+    keys(prefix: string) {
+      return run((m) => [...m.keys()].filter((k) => k.startsWith(prefix) && alive(m, k)));
+    },
+    getVersioned<T>(key: string) {
+      return run((m) => ({ value: alive(m, key)?.v as T | undefined, version: Number(alive(m, versionKey(key))?.v) || 0 }));
+    },
+    setVersioned<T>(key: string, value: T, expected: number | null, ttlSec = DEFAULT_TTL) {
+      return run((m) => {
+        const version = Number(alive(m, versionKey(key))?.v) || 0;
+        if (expected !== null && version !== expected) return false;
+        const exp = Date.now() + ttlSec * 1000;
+        m.set(key, { v: value, exp });
+        m.set(versionKey(key), { v: version + 1, exp });
+        return true;
+      }, true);
+    },
+    async close() {
+      await queue; // espera as gravações na fila
+    },
+  };
+}
@@ -0,0 +1,63 @@
+// api/_lib/store-redis.ts — Redis padrão via TCP (VPS/Docker), com ioredis
+import { Redis } from "ioredis";
+import { CAS_SCRIPT, DEFAULT_TTL, INCR_SCRIPT, type Store, versionKey } from "./store-common.js";
+
+const parse = <T>(raw: string | null): T | undefined => {
+  if (raw == null) return undefined;
+  try { return JSON.parse(raw) as T; } catch { return raw as T; }
+};
+
+export function redisStore(url: string): Store {
+  console.log("[STORE] usando Redis (TCP).");
+  const redis = new Redis(url, { maxRetriesPerRequest: 2, lazyConnect: true });
+  redis.on("error", (e) => console.error("[REDIS] erro:", e.message));
+
+  return {
+    async get<T>(key: string): Promise<T | undefined> {
+      try {
+        return parse<T>(await redis.get(key));
+      } catch (e) {
+        console.error("[REDIS][GET] erro:", e);
+        return undefined;
+      }
+    },
+    async set<T>(key: string, value: T, ttlSec = DEFAULT_TTL): Promise<void> {
+      try {
+        await redis.set(key, JSON.stringify(value), "EX", ttlSec);
+      } catch (e) {
+        console.error("[REDIS][SET] erro:", e);
+      }
+    },
+    async incr(key: string, by = 1, ttlSec = DEFAULT_TTL): Promise<number> {
+      return Number(await redis.eval(INCR_SCRIPT, 1, key, String(by), String(ttlSec)));
+    },
+    async del(key: string): Promise<void> {
+      await redis.del(key);
+    },
+    async keys(prefix: string): Promise<string[]> {
+      const out: string[] = [];
+      let cursor = "0";
+      do {
+        const [next, batch] = await redis.scan(cursor, "MATCH", `${prefix}*`, "COUNT", 500);
+        cursor = next;
+        out.push(...batch);
+      } while (cursor !== "0");
+      return out;
+    },
+    async getVersioned<T>(key: string): Promise<{ value?: T; version: number }> {
+      const [raw, ver] = await redis.mget(key, versionKey(key));
+      return { value: parse<T>(raw), version: Number(ver) || 0 };
+    },
+    async setVersioned<T>(key: string, value: T, expected: number | null, ttlSec = DEFAULT_TTL): Promise<boolean> {
+      const res = await redis.eval(
+        CAS_SCRIPT, 2, key, versionKey(key),
+        expected === null ? "" : String(expected), JSON.stringify(value), String(ttlSec),
+      );
+      return Number(res) === 1;
+    },
+    async close() {
+      if (redis.status === "wait") return redis.disconnect(); // lazyConnect: nunca conectou
+      await redis.quit();
+    },
+  };
+}
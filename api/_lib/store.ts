@@ -0,0 +1,191 @@
+// api/_lib/store.ts — persistência: Upstash REST, Redis (TCP), arquivo local ou memória
+import { CAS_SCRIPT, DEFAULT_TTL, INCR_SCRIPT, type Store, versionKey } from "./store-common.js";
+import { fileStore } from "./store-file.js";
+import { redisStore } from "./store-redis.js";
+
+export type { Store } from "./store-common.js";
+
+export function inMemoryStore(): Store {
+  const mem = new Map<string, { v: unknown; exp: number }>();
+  console.warn("[STORE] usando memória (fallback).");
+  return {
+    async get<T>(key: string): Promise<T | undefined> {
+      const hit = mem.get(key);
+      if (!hit) return undefined;
+      if (Date.now() > hit.exp) { mem.delete(key); return undefined; }
+      return hit.v as T;
+    },
+    async keys(prefix: string): Promise<string[]> {
+      const now = Date.now();
+      return [...mem].filter(([k, { exp }]) => k.startsWith(prefix) && now <= exp).map(([k]) => k);
+    },
+    async set<T>(key: string, value: T, ttlSec = DEFAULT_TTL): Promise<void> {
+      mem.set(key, { v: value, exp: Date.now() + ttlSec * 1000 });
+    },
+    async incr(key: string, by = 1, ttlSec = DEFAULT_TTL): Promise<number> {
+      const hit = mem.get(key);
+      const cur = hit && Date.now() <= hit.exp ? Number(hit.v) || 0 : 0;
+      mem.set(key, { v: cur + by, exp: hit && Date.now() <= hit.exp ? hit.exp : Date.now() + ttlSec * 1000 });
+      return cur + by;
+    },
+    async del(key: string): Promise<void> {
+      mem.delete(key);
+    },
+    async getVersioned<T>(key: string): Promise<{ value?: T; version: number }> {
+      return { value: await this.get<T>(key), version: Number(mem.get(versionKey(key))?.v) || 0 };
+    },
+    // sem await entre checar e gravar: atômico dentro do processo
+    async setVersioned<T>(key: string, value: T, expected: number | null, ttlSec = DEFAULT_TTL): Promise<boolean> {
+      const version = Number(mem.get(versionKey(key))?.v) || 0;
+      if (expected !== null && version !== expected) return false;
+      const exp = Date.now() + ttlSec * 1000;
+      mem.set(key, { v: value, exp });
+      mem.set(versionKey(key), { v: version + 1, exp });
+      return true;
+    }
+  };
+}
+
+// Desembrulha recursivamente respostas do Upstash (value/ex) e strings JSON
+export function unwrapUpstash<T>(input: any): T | undefined {
+  let cur: any = input;
+  for (let i = 0; i < 6; i++) {
+    if (cur == null) return undefined;
+
+    // Envelope { value: "...", ex?: number }
+    if (typeof cur === "object" && "value" in cur) {
+      cur = (cur as any).value;
+      continue;
+    }
+
+    // String JSON
+    if (typeof cur === "string") {
+      try { cur = JSON.parse(cur); continue; } catch { return cur as T; }
+    }
+
+    // Objeto final
+    return cur as T;
+  }
+  return cur as T;
+}
+
+function upstashStore(url: string, token: string): Store {
+  console.log("[STORE] usando Upstash REST.");
+  return {
+    async get<T>(key: string): Promise<T | undefined> {
+      try {
+        const r = await fetch(`${url}/get/${encodeURIComponent(key)}`, {
+          headers: { Authorization: `Bearer ${token}` },
+          cache: "no-store",
+        });
+        if (!r.ok) {
+          console.error("[UPSTASH][GET] HTTP", r.status, await r.text());
+          return undefined;
+        }
+        const { result } = await r.json();
+        if (result == null) return undefined;
+        return unwrapUpstash<T>(result);
+      } catch (e) {
+        console.error("[UPSTASH][GET] erro:", e);
+        return undefined;
+      }
+    },
+    async set<T>(key: string, value: T, ttlSec = DEFAULT_TTL): Promise<void> {
+      try {
+        // corpo = valor; TTL via ?EX (valores antigos no envelope {value, ex} ainda são lidos)
+        const r = await fetch(`${url}/set/${encodeURIComponent(key)}?EX=${ttlSec}`, {
+          method: "POST",
+          headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
+          body: JSON.stringify(value),
+        });
+        if (!r.ok) {
+          console.error("[UPSTASH][SET] HTTP", r.status, await r.text());
+        }
+      } catch (e) {
+        console.error("[UPSTASH][SET] erro:", e);
+      }
+    },
+    async incr(key: string, by = 1, ttlSec = DEFAULT_TTL): Promise<number> {
+      const r = await fetch(url, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
+        body: JSON.stringify(["EVAL", INCR_SCRIPT, "1", key, String(by), String(ttlSec)]),
+      });
+      if (!r.ok) throw new Error(`[UPSTASH][INCR] HTTP ${r.status}: ${await r.text()}`);
+      const { result, error } = await r.json();
+      if (error) throw new Error(`[UPSTASH][INCR] ${error}`);
+      return Number(result);
+    },
+    async del(key: string): Promise<void> {
+      const r = await fetch(`${url}/del/${encodeURIComponent(key)}`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (!r.ok) throw new Error(`[UPSTASH][DEL] HTTP ${r.status}: ${await r.text()}`);
+    },
+    async keys(prefix: string): Promise<string[]> {
+      const out: string[] = [];
+      let cursor = "0";
+      do {
+        const r = await fetch(url, {
+          method: "POST",
+          headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
+          body: JSON.stringify(["SCAN", cursor, "MATCH", `${prefix}*`, "COUNT", "500"]),
+        });
+        if (!r.ok) throw new Error(`[UPSTASH][SCAN] HTTP ${r.status}: ${await r.text()}`);
+        const { result } = await r.json() as { result: [string, string[]] };
+        cursor = result[0];
+        out.push(...result[1]);
+      } while (cursor !== "0");
+      return out;
+    },
+    async getVersioned<T>(key: string): Promise<{ value?: T; version: number }> {
+      const r = await fetch(`${url}/pipeline`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
+        body: JSON.stringify([["GET", key], ["GET", versionKey(key)]]),
+        cache: "no-store",
+      });
+      if (!r.ok) throw new Error(`[UPSTASH][GETV] HTTP ${r.status}: ${await r.text()}`);
+      const [val, ver] = await r.json() as { result?: any; error?: string }[];
+      if (val?.error || ver?.error) throw new Error(`[UPSTASH][GETV] ${val?.error || ver?.error}`);
+      return { value: val?.result == null ? undefined : unwrapUpstash<T>(val.result), version: Number(ver?.result) || 0 };
+    },
+    async setVersioned<T>(key: string, value: T, expected: number | null, ttlSec = DEFAULT_TTL): Promise<boolean> {
+      const r = await fetch(url, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
+        body: JSON.stringify([
+          "EVAL", CAS_SCRIPT, "2", key, versionKey(key),
+          expected === null ? "" : String(expected), JSON.stringify(value), String(ttlSec),
+        ]),
+      });
+      if (!r.ok) throw new Error(`[UPSTASH][CAS] HTTP ${r.status}: ${await r.text()}`);
+      const { result, error } = await r.json();
+      if (error) throw new Error(`[UPSTASH][CAS] ${error}`);
+      return Number(result) === 1;
+    }
+  };
+}
+
+// STORE_BACKEND força um backend (upstash | redis | file | memory); sem ele, o primeiro configurado:
+// UPSTASH_REDIS_REST_URL/TOKEN, REDIS_URL (ex.: redis://localhost:6379) ou STORE_FILE (ex.: ./data/ecoleta.json)
+export function storeBackend(env = process.env) {
+  if (env.STORE_BACKEND) return env.STORE_BACKEND;
+  if (env.UPSTASH_REDIS_REST_URL && env.UPSTASH_REDIS_REST_TOKEN) return "upstash";
+  if (env.REDIS_URL) return "redis";
+  if (env.STORE_FILE) return "file";
+  return "memory";
+}
+
+export function createStore(backend = storeBackend(), env = process.env): Store {
+  switch (backend) {
+    case "upstash": return upstashStore(env.UPSTASH_REDIS_REST_URL!, env.UPSTASH_REDIS_REST_TOKEN!);
+    case "redis": return redisStore(env.REDIS_URL || "redis://localhost:6379");
+    case "file": return fileStore(env.STORE_FILE || "./data/ecoleta-store.json");
+    case "memory": return inMemoryStore();
+    default: throw new Error(`STORE_BACKEND desconhecido: ${backend}`);
+  }
+}
+
+export const store: Store = createStore();
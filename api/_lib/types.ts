@@ -0,0 +1,37 @@
+// api/_lib/types.ts — tipos de domínio compartilhados entre o bot e a API
+
+// idiomas atendidos pelo bot (ver api/_lib/i18n.ts)
+export type Locale = "pt-BR" | "en" | "es";
+
+export type Pred = { label: string; score: number };
+export type UserInfo = { name?: string; cpf?: string; phone?: string };
+export type Address = {
+  cep?: string; logradouro?: string; bairro?: string; localidade?: string; uf?: string;
+  numero?: string; complemento?: string
+};
+export type Schedule = { day?: string; time?: string };
+
+// predicted: palpite do modelo quando o usuário corrigiu a categoria (base para re-treino)
+export type CartItem = { item: Pred; qty: number; fileId?: string; predicted?: Pred };
+
+// coordenadas da localização compartilhada (roteirização da equipe)
+export type GeoPoint = { lat: number; lng: number };
+
+// acesso ao item no endereço (itens volumosos)
+export type Access = "terreo" | "elevador" | "escada";
+
+export type OrderStatus = "agendado" | "confirmado" | "coletado" | "ausente" | "cancelado";
+export type Order = {
+  protocol: string;
+  chatId: number;
+  status: OrderStatus;
+  createdAt: string;
+  updatedAt?: string;
+  user: UserInfo;
+  items: CartItem[];
+  address: Address;
+  location?: GeoPoint;
+  access?: Access;
+  locale?: Locale; // idioma dos avisos e lembretes
+  schedule: Required<Schedule>;
+};
@@ -0,0 +1,17 @@
+// api/cron-reminders.ts — disparado pelo cron (vercel.json); pode rodar várias vezes sem duplicar
+import { requireBearer } from "./_lib/http.js";
+import { runReminders } from "./_lib/reminders.js";
+
+export const config = { runtime: "nodejs", maxDuration: 10 };
+
+// Vercel Cron envia Authorization: Bearer <CRON_SECRET>
+export default async function handler(req: any, res: any) {
+  if (!requireBearer(req, res, "CRON_SECRET")) return;
+  try {
+    const result = await runReminders();
+    res.status(200).json({ ok: true, ...result });
+  } catch (e: any) {
+    console.error("[REMINDER] erro:", e);
+    res.status(500).json({ ok: false, error: e?.message || String(e) });
+  }
+}
@@ -1,7 +1,83 @@
-export default function handler(_req: any, res: any) {
-  res.status(200).json({
-    ok: true,
+// api/health.ts — verifica de fato cada dependência (Store, classificador, CEP) com status e latência
+import axios from "axios";
+import { store, storeBackend } from "./_lib/store.js";
+import { createCepProviders } from "./_lib/cep.js";
+
+export const config = { runtime: "nodejs", maxDuration: 10 };
+
+// HEALTH_TIMEOUT_MS: limite de cada verificação; rodam em paralelo, abaixo do maxDuration
+const TIMEOUT_MS = Number(process.env.HEALTH_TIMEOUT_MS ?? 4000);
+const PROBE_CEP = "01001000"; // Praça da Sé, sempre existe
+// HEALTH_CACHE_SEC: o endpoint é público; classificador e provedores de CEP são verificados no máximo
+// uma vez nesse intervalo (cada acesso gastaria cota desses serviços). O Store é verificado sempre.
+const CACHE_SEC = Number(process.env.HEALTH_CACHE_SEC ?? 60);
+const CACHE_KEY = "ecoleta:health:external";
+
+type Check = { ok: boolean; latencyMs: number; detail?: string; error?: string };
+
+async function probe(fn: () => Promise<string | undefined>): Promise<Check> {
+  const started = Date.now();
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    const detail = await Promise.race([
+      fn(),
+      new Promise<never>((_, reject) => { timer = setTimeout(() => reject(new Error(`timeout de ${TIMEOUT_MS}ms`)), TIMEOUT_MS); }),
+    ]);
+    return { ok: true, latencyMs: Date.now() - started, ...(detail ? { detail } : {}) };
+  } catch (e: any) {
+    return { ok: false, latencyMs: Date.now() - started, error: e?.code || e?.message || String(e) };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// escreve, lê e apaga uma chave descartável
+async function checkStore() {
+  const key = `ecoleta:health:${Date.now()}:${Math.random().toString(36).slice(2, 8)}`;
+  await store.set(key, { at: Date.now() }, 60);
+  const back = await store.get<{ at: number }>(key);
+  await store.del(key);
+  if (!back?.at) throw new Error("valor gravado não foi lido de volta");
+  return storeBackend();
+}
+
+// qualquer resposta HTTP abaixo de 500 indica que o servidor do modelo está de pé
+async function checkPredict() {
+  const r = await axios.get(process.env.PREDICT_URL!, { timeout: TIMEOUT_MS, validateStatus: () => true });
+  if (r.status >= 500) throw new Error(`HTTP ${r.status}`);
+  return `HTTP ${r.status}`;
+}
+
+const settle = async (checks: Record<string, Promise<Check> | Check>) =>
+  Object.fromEntries(await Promise.all(Object.entries(checks).map(async ([name, c]) => [name, await c] as const)));
+
+// serviços de terceiros, com o resultado guardado no Store por CACHE_SEC
+async function externalChecks(): Promise<{ checks: Record<string, Check>; checkedAt: string }> {
+  const cached = await store.get<{ checks: Record<string, Check>; checkedAt: string }>(CACHE_KEY);
+  if (cached) return cached;
+  const checks: Record<string, Promise<Check> | Check> = {};
+  if (process.env.CLASSIFIER === "stub") checks.predict = { ok: true, latencyMs: 0, detail: "stub (sem rede)" };
+  else if (!process.env.PREDICT_URL) checks.predict = { ok: false, latencyMs: 0, error: "PREDICT_URL ausente" };
+  else checks.predict = probe(checkPredict);
+  for (const p of createCepProviders()) {
+    checks[`cep:${p.name}`] = probe(async () => {
+      if (!(await p.lookup(PROBE_CEP, TIMEOUT_MS))) throw new Error("CEP de teste não encontrado");
+      return undefined;
+    });
+  }
+  const fresh = { checks: await settle(checks), checkedAt: new Date().toISOString() };
+  await store.set(CACHE_KEY, fresh, CACHE_SEC);
+  return fresh;
+}
+
+export default async function handler(_req: any, res: any) {
+  const [storeCheck, external] = await Promise.all([probe(checkStore), externalChecks()]);
+  const result = { store: storeCheck, ...external.checks };
+  const ok = Object.values(result).every((c) => c.ok);
+  res.status(ok ? 200 : 503).json({
+    ok,
     tokenSet: !!process.env.TELEGRAM_TOKEN,
-    predictUrlSet: !!process.env.PREDICT_URL,
+    checks: result,
+    externalCheckedAt: external.checkedAt,
   });
 }
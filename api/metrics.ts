@@ -0,0 +1,16 @@
+// api/metrics.ts — métricas do bot no formato texto do Prometheus (scrape com bearer_token)
+import { requireBearer } from "./_lib/http.js";
+import { renderMetrics } from "./_lib/metrics.js";
+
+export const config = { runtime: "nodejs", maxDuration: 10 };
+
+export default async function handler(req: any, res: any) {
+  if (!requireBearer(req, res, "METRICS_TOKEN")) return;
+  try {
+    res.setHeader("Content-Type", "text/plain; version=0.0.4; charset=utf-8");
+    res.status(200).send(await renderMetrics());
+  } catch (e: any) {
+    console.error("[METRICS] erro:", e);
+    res.status(500).json({ ok: false, error: e?.message || String(e) });
+  }
+}
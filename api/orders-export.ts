@@ -0,0 +1,46 @@
+// api/orders-export.ts — CSV com uma linha por item de cada pedido
+import { requireBearer, parseOrderFilter } from "./_lib/http.js";
+import { searchOrders } from "./_lib/orders.js";
+import { formatAddressPT, toPT } from "./_lib/format.js";
+
+export const config = { runtime: "nodejs", maxDuration: 10 };
+
+const COLUMNS = [
+  "protocolo", "status", "data", "horario", "nome", "telefone",
+  "cep", "endereco", "bairro", "localidade", "uf", "latitude", "longitude",
+  "item", "item_pt", "quantidade", "criado_em",
+];
+// nome e endereço vêm do cidadão: texto começando com = + - @ viraria fórmula no Excel/Sheets.
+// Números (latitude negativa) ficam como estão.
+const isNumeric = (s: string) => /^-?\d+(\.\d+)?$/.test(s);
+const csvCell = (v: unknown) => {
+  let s = v == null ? "" : String(v);
+  if (/^[=+\-@\t\r]/.test(s) && !isNumeric(s)) s = `'${s}`;
+  return /[",\n;]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+export default async function handler(req: any, res: any) {
+  if (!requireBearer(req, res)) return;
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ ok: false, error: "método não permitido" });
+  }
+  const filter = parseOrderFilter(req.query);
+  if ("error" in filter) return res.status(400).json({ ok: false, error: filter.error });
+
+  const rows = [COLUMNS];
+  for (const o of await searchOrders(filter)) {
+    for (const it of o.items) {
+      rows.push([
+        o.protocol, o.status, o.schedule.day, o.schedule.time, o.user.name ?? "", o.user.phone ?? "",
+        o.address.cep ?? "", formatAddressPT(o.address), o.address.bairro ?? "", o.address.localidade ?? "", o.address.uf ?? "",
+        String(o.location?.lat ?? ""), String(o.location?.lng ?? ""),
+        it.item.label, toPT(it.item.label), String(it.qty), o.createdAt,
+      ]);
+    }
+  }
+  const csv = "\uFEFF" + rows.map((r) => r.map(csvCell).join(",")).join("\r\n"); // BOM p/ Excel
+  res.setHeader("Content-Type", "text/csv; charset=utf-8");
+  res.setHeader("Content-Disposition", `attachment; filename="pedidos_${filter.from}_${filter.to}.csv"`);
+  return res.status(200).send(csv);
+}
@@ -0,0 +1,49 @@
+// api/orders.ts — lista/filtra pedidos e atualiza status (painel da logística)
+import { requireBearer, isOrderStatus, parseOrderFilter } from "./_lib/http.js";
+import { getOrder, notifyCitizen, releaseSlot, searchOrders, updateOrder } from "./_lib/orders.js";
+import { maskCPF } from "./_lib/lgpd.js";
+import { formatAddressPT, toPT } from "./_lib/format.js";
+import type { Order } from "./_lib/types.js";
+
+export const config = { runtime: "nodejs", maxDuration: 10 };
+
+// o painel nunca recebe o CPF completo
+function toPublic(o: Order) {
+  return {
+    ...o,
+    user: { ...o.user, cpf: o.user.cpf && maskCPF(o.user.cpf) },
+    items: o.items.map((it) => ({ ...it, labelPT: toPT(it.item.label) })),
+    addressText: formatAddressPT(o.address),
+  };
+}
+
+export default async function handler(req: any, res: any) {
+  if (!requireBearer(req, res)) return;
+
+  // GET /api/orders?from=&to=&status=&localidade=&label=
+  if (req.method === "GET") {
+    const filter = parseOrderFilter(req.query);
+    if ("error" in filter) return res.status(400).json({ ok: false, error: filter.error });
+    const orders = await searchOrders(filter);
+    return res.status(200).json({ ok: true, count: orders.length, orders: orders.map(toPublic) });
+  }
+
+  // PATCH /api/orders { protocol, status }
+  if (req.method === "PATCH" || req.method === "POST") {
+    const { protocol, status } = req.body || {};
+    if (typeof protocol !== "string" || !isOrderStatus(status)) {
+      return res.status(400).json({ ok: false, error: "informe protocol e status válidos" });
+    }
+    const o = await getOrder(protocol);
+    if (!o) return res.status(404).json({ ok: false, error: "pedido não encontrado" });
+    const no = await updateOrder(protocol, { status });
+    if (!no) return res.status(409).json({ ok: false, error: `transição ${o.status} -> ${status} não permitida` });
+    if (no.status === "cancelado") await releaseSlot(no.schedule.day, no.schedule.time);
+    console.log("[API] status", protocol, o.status, "->", no.status);
+    await notifyCitizen(no);
+    return res.status(200).json({ ok: true, order: toPublic(no) });
+  }
+
+  res.setHeader("Allow", "GET, PATCH, POST");
+  return res.status(405).json({ ok: false, error: "método não permitido" });
+}
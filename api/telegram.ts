@@ -1,189 +1,251 @@
 // api/telegram.ts
-import { Bot, InlineKeyboard, webhookCallback } from "grammy";
+import { Bot, Context, InlineKeyboard, InputFile, Keyboard, NextFunction, webhookCallback } from "grammy";
 import axios from "axios";
-import FormData from "form-data";
+import { store, storeBackend } from "./_lib/store.js";
+import { runStoreContract } from "./_lib/store-contract.js";
+import { maskCPF, maskPhone, openUser, sealUser } from "./_lib/lgpd.js";
+import { LABEL_PT, formatAddressPT, itemName, onlyDigits, toPT } from "./_lib/format.js";
+import {
+  LEAD_TIME_HOURS, TIME_SLOTS, bookableTimes, formatDay, isBookable, localDayISO, nextDays, pad2,
+} from "./_lib/calendar.js";
+import {
+  STATUS_PT, TELEGRAM_API_ROOT, createOrder, getOrder, isOpenOrder, listOrders, listOrdersByDay, notifyCitizen,
+  releaseSlot, reserveSlot, saveOrder, slotCapacity, slotUsage, updateOrder,
+} from "./_lib/orders.js";
+import { CircuitOpenError, createClassifier, resilientClassifier } from "./_lib/classifier.js";
+import { RateLimitError, forgetUpdate, hit, isDuplicateUpdate, markUpdateHandled } from "./_lib/ratelimit.js";
+import { cartConflict, cartRules, catalogItem, estimatedWeightKg, isBulky, isDropOffOnly } from "./_lib/catalog.js";
+import type { SlotRules } from "./_lib/calendar.js";
+import { isCovered } from "./_lib/coverage.js";
+import { formatEcoponto, nearestEcopontos, type Origin } from "./_lib/ecopontos.js";
+import { createGeocoder } from "./_lib/geocoding.js";
+import { CepUnavailableError, resolveCep } from "./_lib/cep.js";
+import {
+  LOCALES, formatNumber, getUserLocale, localeFromTelegram, localeKey, parseLocale, setUserLocale, t,
+} from "./_lib/i18n.js";
+import { inc, observe } from "./_lib/metrics.js";
+import { funnelReport, recordFunnel } from "./_lib/funnel.js";
+import { isPickupPayload, orderIcs, orderReceiptPdf, parsePickupPayload, pickupLink } from "./_lib/receipt.js";
+import {
+  FlowError, cartLabels, checkTransition, inputStep, missingStreet, pendingStep, photoGap, type Draft, type Step,
+} from "./_lib/flow.js";
+import type {
+  Access, Address, CartItem, GeoPoint, Locale, Order, OrderStatus, Pred, Schedule, UserInfo,
+} from "./_lib/types.js";
 
 // força Node e dá folga pra cold start
 export const config = { runtime: "nodejs", maxDuration: 10 };
 
 const token = process.env.TELEGRAM_TOKEN!;
-const PREDICT_URL = process.env.PREDICT_URL!;
-const API_KEY = process.env.API_KEY || "";
+// enviado pelo Telegram em X-Telegram-Bot-Api-Secret-Token (setWebhook secret_token)
+const WEBHOOK_SECRET = process.env.TELEGRAM_WEBHOOK_SECRET!;
+// limites por chat: mensagens por minuto e classificações de imagem por hora
+const RATE_LIMIT_MSGS = Number(process.env.RATE_LIMIT_MSGS ?? 20);
+const RATE_LIMIT_CLASSIFY = Number(process.env.RATE_LIMIT_CLASSIFY ?? 10);
+// abaixo deste score o bot mostra o top-3 e a lista completa de categorias
+const CONFIDENCE_THRESHOLD = Number(process.env.CONFIDENCE_THRESHOLD ?? 0.6);
 
 if (!token) throw new Error("TELEGRAM_TOKEN ausente");
-if (!PREDICT_URL) throw new Error("PREDICT_URL ausente");
+if (!WEBHOOK_SECRET) throw new Error("TELEGRAM_WEBHOOK_SECRET ausente");
 
-type Pred = { label: string; score: number };
-type UserInfo = { name?: string; cpf?: string; phone?: string };
-type Address = {
-  cep?: string; logradouro?: string; bairro?: string; localidade?: string; uf?: string;
-  numero?: string; complemento?: string
-};
-type Schedule = { day?: string; time?: string };
-type Step =
-  | "name" | "cpf" | "phone"
-  | "await_photo" | "await_confirm" | "await_qty" | "await_cep" | "await_number" | "await_day" | "await_time";
-
-type Draft = {
-  step?: Step;
-  user?: UserInfo;
-  item?: Pred;
-  qty?: number;
-  address?: Address;
-  schedule?: Schedule;
-  latestFileId?: string;
-  latestFileUrl?: string;
+// Perfil de longa duração, por usuário do Telegram (independente do rascunho)
+type Profile = {
+  userId: number;
+  user: UserInfo;
+  address?: Address; // último endereço usado
+  consentAt?: string;
+  updatedAt: string;
 };
 
-// ---------- Persistência com fallback (Upstash Redis REST ou memória) ----------
+// ---------- Rascunho ----------
 const DRAFT_TTL = 60 * 60 * 2; // 2h
 
-type Store = {
-  get<T>(key: string): Promise<T | undefined>;
-  set<T>(key: string, value: T, ttlSec?: number): Promise<void>;
-};
+const MERGE_RETRIES = 5;
 
-function inMemoryStore(): Store {
-  const mem = new Map<string, { v: unknown; exp: number }>();
-  console.warn("[STORE] usando memória (fallback).");
-  return {
-    async get<T>(key: string): Promise<T | undefined> {
-      const hit = mem.get(key);
-      if (!hit) return undefined;
-      if (Date.now() > hit.exp) { mem.delete(key); return undefined; }
-      return hit.v as T;
-    },
-    async set<T>(key: string, value: T, ttlSec = DRAFT_TTL): Promise<void> {
-      mem.set(key, { v: value, exp: Date.now() + ttlSec * 1000 });
+const draftKey = (chatId: number) => `ecoleta:draft:${chatId}`;
+
+// Migrações do formato do rascunho: DRAFT_MIGRATIONS[n] leva da versão n para n + 1.
+// Ao mudar o tipo Draft, acrescente uma função aqui: conversas em andamento continuam.
+const DRAFT_MIGRATIONS: ((d: any) => any)[] = [
+  // 0 -> 1: item/qty únicos viram a primeira linha do carrinho
+  (d) => {
+    if (!d.items && d.item && d.qty) {
+      const { item, qty, latestFileId } = d;
+      return { ...d, item: undefined, qty: undefined, items: [{ item, qty, fileId: latestFileId }] };
     }
-  };
-}
+    return d;
+  },
+  // 1 -> 2: a URL do arquivo (com o token do bot) deixa de ser guardada; resolve-se pelo file_id quando preciso
+  ({ latestFileUrl, ...d }) => d,
+];
+const DRAFT_SCHEMA = DRAFT_MIGRATIONS.length;
 
-// Desembrulha recursivamente respostas do Upstash (value/ex) e strings JSON
-function unwrapUpstash<T>(input: any): T | undefined {
-  let cur: any = input;
-  for (let i = 0; i < 6; i++) {
-    if (cur == null) return undefined;
+function migrateDraft(raw: any): Draft {
+  let d = raw;
+  for (let v = raw.schema ?? 0; v < DRAFT_SCHEMA; v++) d = DRAFT_MIGRATIONS[v](d);
+  return { ...d, schema: DRAFT_SCHEMA };
+}
 
-    // Envelope { value: "...", ex?: number }
-    if (typeof cur === "object" && "value" in cur) {
-      cur = (cur as any).value;
-      continue;
-    }
+// rascunho vazio; preserva o aceite LGPD se já houver
+const newDraft = (prev?: Draft): Draft => ({
+  schema: DRAFT_SCHEMA,
+  step: prev?.consentAt ? "name" : "consent", consentAt: prev?.consentAt, user: {}, address: {}, schedule: {},
+});
 
-    // String JSON
-    if (typeof cur === "string") {
-      try { cur = JSON.parse(cur); continue; } catch { return cur as T; }
+async function loadDraft(chatId: number): Promise<{ draft: Draft; version: number }> {
+  const { value, version } = await store.getVersioned<Draft>(draftKey(chatId));
+  return { draft: value ? { ...migrateDraft(value), user: openUser(value.user) } : newDraft(), version };
+}
+async function getDraft(chatId: number): Promise<Draft> {
+  return (await loadDraft(chatId)).draft;
+}
+const sealDraft = (d: Draft): Draft => ({ ...d, user: sealUser(d.user) });
+async function setDraft(chatId: number, draft: Draft) {
+  await store.setVersioned(draftKey(chatId), sealDraft({ ...draft, schema: DRAFT_SCHEMA }), null, DRAFT_TTL);
+  await recordFunnel(chatId, draft.step);
+}
+// métricas de transição e funil (reagendamento não passa pelo fluxo de pedido novo)
+async function trackStep(chatId: number, from: Draft, to: Draft) {
+  if (from.step === to.step) return;
+  await Promise.all([
+    inc("ecoleta_step_transitions_total", { from: from.step ?? "none", to: to.step ?? "none" }),
+    from.reschedule || to.reschedule ? undefined : recordFunnel(chatId, to.step),
+  ]);
+}
+// get -> merge -> compare-and-set; em conflito relê e reaplica (partial pode ser função do estado atual)
+async function mergeDraft(chatId: number, partial: Partial<Draft> | ((d: Draft) => Partial<Draft>)) {
+  for (let attempt = 1; attempt <= MERGE_RETRIES; attempt++) {
+    const { draft: d, version } = await loadDraft(chatId);
+    const nd = { ...d, ...(typeof partial === "function" ? partial(d) : partial) };
+    const refused = checkTransition(d, nd);
+    if (refused) throw new FlowError(`[FLOW] chat ${chatId}: ${refused}`);
+    if (await store.setVersioned(draftKey(chatId), sealDraft(nd), version, DRAFT_TTL)) {
+      console.log("[DRAFT] chat", chatId, "merge", {
+        from: d.step, to: nd.step, attempt,
+        hasUser: !!nd.user?.name, hasCPF: !!nd.user?.cpf, hasPhone: !!nd.user?.phone,
+        hasItem: !!nd.item, qty: nd.qty, cart: nd.items?.length ?? 0, hasCEP: !!nd.address?.cep
+      });
+      await trackStep(chatId, d, nd);
+      return nd;
     }
-
-    // Objeto final
-    return cur as T;
+    console.warn("[DRAFT] conflito de escrita, chat", chatId, "tentativa", attempt);
   }
-  return cur as T;
+  throw new Error(`[DRAFT] conflito persistente ao salvar rascunho do chat ${chatId}`);
 }
 
-function upstashStore(url: string, token: string): Store {
-  console.log("[STORE] usando Upstash REST.");
-  return {
-    async get<T>(key: string): Promise<T | undefined> {
-      try {
-        const r = await fetch(`${url}/get/${encodeURIComponent(key)}`, {
-          headers: { Authorization: `Bearer ${token}` },
-          cache: "no-store",
-        });
-        if (!r.ok) {
-          console.error("[UPSTASH][GET] HTTP", r.status, await r.text());
-          return undefined;
-        }
-        const { result } = await r.json();
-        if (result == null) return undefined;
-        return unwrapUpstash<T>(result);
-      } catch (e) {
-        console.error("[UPSTASH][GET] erro:", e);
-        return undefined;
-      }
-    },
-    async set<T>(key: string, value: T, ttlSec = DRAFT_TTL): Promise<void> {
-      try {
-        const r = await fetch(`${url}/set/${encodeURIComponent(key)}`, {
-          method: "POST",
-          headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
-          body: JSON.stringify({ value: JSON.stringify(value), ex: ttlSec }),
-        });
-        if (!r.ok) {
-          console.error("[UPSTASH][SET] HTTP", r.status, await r.text());
-        }
-      } catch (e) {
-        console.error("[UPSTASH][SET] erro:", e);
-      }
-    }
-  };
-}
+// trava "confirming" de uma execução que morreu no meio (maxDuration de 10s): depois disso pode ser retomada
+const CLAIM_STALE_MS = 30_000;
+const staleClaim = (d: Draft) =>
+  d.step === "confirming" && Date.now() - (d.claimedAt ? Date.parse(d.claimedAt) : 0) > CLAIM_STALE_MS;
 
-const store: Store = (process.env.UPSTASH_REDIS_REST_URL && process.env.UPSTASH_REDIS_REST_TOKEN)
-  ? upstashStore(process.env.UPSTASH_REDIS_REST_URL, process.env.UPSTASH_REDIS_REST_TOKEN)
-  : inMemoryStore();
+// ---------- Perfil ----------
+const PROFILE_TTL = 60 * 60 * 24 * 365; // 1 ano
 
-const draftKey = (chatId: number) => `ecoleta:draft:${chatId}`;
+const profileKey = (userId: number) => `ecoleta:profile:${userId}`;
 
-async function getDraft(chatId: number): Promise<Draft> {
-  const d = await store.get<Draft>(draftKey(chatId));
-  return d ?? { step: "name", user: {}, address: {}, schedule: {} };
+async function getProfile(userId: number): Promise<Profile | undefined> {
+  const p = await store.get<Profile>(profileKey(userId));
+  return p && { ...p, user: openUser(p.user)! };
 }
-async function setDraft(chatId: number, draft: Draft) {
-  await store.set(draftKey(chatId), draft, DRAFT_TTL);
+async function saveProfile(userId: number, partial: Partial<Omit<Profile, "userId" | "updatedAt">>) {
+  const cur = await getProfile(userId);
+  const np: Profile = { ...cur, ...partial, user: { ...cur?.user, ...partial.user }, userId, updatedAt: new Date().toISOString() };
+  await store.set(profileKey(userId), { ...np, user: sealUser(np.user) }, PROFILE_TTL);
+  return np;
 }
-async function mergeDraft(chatId: number, partial: Partial<Draft>) {
-  const d = await getDraft(chatId);
-  const nd = { ...d, ...partial };
-  console.log("[DRAFT] chat", chatId, "merge", {
-    from: d.step, to: nd.step,
-    hasUser: !!nd.user?.name, hasCPF: !!nd.user?.cpf, hasPhone: !!nd.user?.phone,
-    hasItem: !!nd.item, qty: nd.qty, hasCEP: !!nd.address?.cep
-  });
-  await setDraft(chatId, nd);
-  return nd;
-}
-
-// ---------- EN -> PT ----------
-const LABEL_PT: Record<string, string> = {
-  Battery: "Bateria",
-  Keyboard: "Teclado",
-  Microwave: "Micro-ondas",
-  Mobile: "Celular",
-  Mouse: "Mouse",
-  PCB: "Placa de circuito",
-  Player: "Reprodutor",
-  Printer: "Impressora",
-  Television: "Televisão",
-  "Washing Machine": "Máquina de lavar",
-};
-const toPT = (en: string) => LABEL_PT[en] ?? en;
+const isCompleteProfile = (p?: Profile): p is Profile => !!(p?.user.name && p.user.cpf && p.user.phone);
+
+// ---------- Operadores ----------
+// OPERATOR_IDS: ids de usuário do Telegram da equipe de coleta, separados por vírgula
+const OPERATOR_IDS = new Set(
+  (process.env.OPERATOR_IDS || "").split(",").map((s) => s.trim()).filter(Boolean).map(Number)
+);
+const isOperator = (userId?: number) => userId != null && OPERATOR_IDS.has(userId);
+
+// idioma da conversa: preferência salva (/idioma) ou o idioma do app do Telegram
+type BotContext = Context & { locale: Locale };
+
+const bot = new Bot<BotContext>(token, { client: { apiRoot: TELEGRAM_API_ROOT } });
+
+// ---------- proteção do webhook ----------
+// descarta reentregas do mesmo update (timeouts do maxDuration); se o tratamento falhar, a reentrega passa
+bot.use(async (ctx, next) => {
+  const updateId = ctx.update.update_id;
+  if (await isDuplicateUpdate(updateId)) {
+    console.warn("[DEDUP] update repetido", updateId);
+    return;
+  }
+  try {
+    await next();
+  } catch (e) {
+    await forgetUpdate(updateId);
+    throw e;
+  }
+  await markUpdateHandled(updateId);
+});
+
+bot.use(async (ctx, next) => {
+  const userId = ctx.from?.id;
+  ctx.locale = (userId != null && await getUserLocale(userId)) || localeFromTelegram(ctx.from?.language_code);
+  await next();
+});
+
+// mudança de passo recusada pela máquina de estados (botão antigo, estado perdido): avisa em vez de falhar o update
+bot.use(async (ctx, next) => {
+  try {
+    await next();
+  } catch (e) {
+    if (!(e instanceof FlowError)) throw e;
+    console.warn(e.message);
+    await ctx.reply(t(ctx.locale).lostState);
+  }
+});
+
+// tipo do update para as métricas (comandos separados do texto livre)
+function updateType(ctx: Context) {
+  const msg = ctx.message;
+  if (!msg) return Object.keys(ctx.update).find((k) => k !== "update_id") ?? "unknown";
+  if (msg.text?.startsWith("/")) return "command";
+  if (msg.photo) return "photo";
+  if (msg.document) return "document";
+  if (msg.location) return "location";
+  if (msg.text) return "text";
+  return "message_other";
+}
+bot.use(async (ctx, next) => {
+  await inc("ecoleta_updates_total", { type: updateType(ctx) });
+  await next();
+});
 
-const bot = new Bot(token);
+// limite de mensagens por chat; avisa só uma vez por janela
+bot.use(async (ctx, next) => {
+  const chatId = ctx.chat?.id;
+  if (chatId == null) return next();
+  const { allowed, count } = await hit("msg", chatId, RATE_LIMIT_MSGS, 60);
+  if (allowed) return next();
+  console.warn("[RATELIMIT] chat", chatId, "mensagens", count);
+  if (ctx.callbackQuery) {
+    try { await ctx.answerCallbackQuery({ text: t(ctx.locale).tooManyActions }); } catch {}
+  } else if (count === RATE_LIMIT_MSGS + 1) {
+    await ctx.reply(t(ctx.locale).tooManyMessages);
+  }
+});
 
 // ---------- helpers HTTP/IA ----------
 async function getFileUrl(fileId: string): Promise<string> {
   const f = await bot.api.getFile(fileId);
-  return `https://api.telegram.org/file/bot${token}/${f.file_path}`;
+  return `${TELEGRAM_API_ROOT}/file/bot${token}/${f.file_path}`;
 }
 async function getFileBuffer(fileId: string): Promise<Buffer> {
   const url = await getFileUrl(fileId);
   const resp = await axios.get<ArrayBuffer>(url, { responseType: "arraybuffer" });
   return Buffer.from(resp.data as any);
 }
-async function classifyImage(bytes: Buffer, topk = 1): Promise<Pred[]> {
-  const form = new FormData();
-  form.append("file", bytes, { filename: "photo.jpg", contentType: "image/jpeg" });
-  const headers: Record<string, string> = { ...(form.getHeaders?.() || {}) };
-  if (API_KEY) headers["X-API-Key"] = API_KEY;
-  const { data } = await axios.post(`${PREDICT_URL}?topk=${topk}`, form as any, {
-    headers, timeout: 20000, maxBodyLength: Infinity,
-  });
-  return data.topk as Pred[];
-}
+// CLASSIFIER / PREDICT_URL: ver api/_lib/classifier.ts
+const classifier = resilientClassifier(createClassifier());
+const geocoder = createGeocoder();
+const GEOCODE_TIMEOUT_MS = 5000;
 
-const onlyDigits = (s: string) => (s || "").replace(/\D/g, "");
 function isValidCPF(cpfRaw: string): boolean {
   const cpf = onlyDigits(cpfRaw);
   if (!cpf || cpf.length !== 11) return false;
@@ -203,81 +265,425 @@ const isValidPhone = (p: string) => {
   return d.length === 10 || d.length === 11;
 };
 
-type ViaCEP = { cep?: string; logradouro?: string; bairro?: string; localidade?: string; uf?: string; complemento?: string; erro?: boolean; };
-async function fetchViaCEP(cep: string): Promise<ViaCEP> {
-  const c = onlyDigits(cep);
-  const { data } = await axios.get<ViaCEP>(`https://viacep.com.br/ws/${c}/json/`, { timeout: 8000 });
-  return data;
-}
-function formatAddressPT(a: Address) {
-  const parts = [
-    a.logradouro && a.numero ? `${a.logradouro}, ${a.numero}` : a.logradouro,
-    a.bairro,
-    a.localidade && a.uf ? `${a.localidade}/${a.uf}` : (a.localidade || a.uf),
-    a.complemento,
-    a.cep && `CEP ${a.cep}`,
-  ].filter(Boolean) as string[];
-  return parts.join(" • ");
-}
-
-const TIME_SLOTS = ["09:00", "11:00", "14:00", "16:00", "18:00"];
-function nextDays(n = 7) {
-  const out: { iso: string; label: string }[] = [];
-  const fmt = new Intl.DateTimeFormat("pt-BR", { weekday: "short", day: "2-digit", month: "2-digit" });
-  for (let i = 0; i < n; i++) {
-    const d = new Date(); d.setDate(d.getDate() + i);
-    out.push({ iso: d.toISOString().slice(0, 10), label: fmt.format(d) });
-  }
-  return out;
-}
-function kbDays() {
+function streetPrompt(l: Locale, a: Address) {
+  const missing = missingStreet(a);
+  const m = t(l).missingStreet;
+  return missing.length === 2 ? m.both : missing[0] === "rua" ? m.street : m.neighborhood;
+}
+function numberPrompt(l: Locale, a: Address) {
+  return `${t(l).addressLabel}\n• ${formatAddressPT(a)}\n\n${t(l).askNumber}`;
+}
+
+// "Rua das Flores, 123 apto 4, Centro, Itu/SP"; undefined se faltar alguma parte
+function parseManualAddress(txt: string, cep?: string): Address | undefined {
+  const parts = txt.split(",").map((p) => p.trim()).filter(Boolean);
+  if (parts.length < 4) return undefined;
+  const city = parts.at(-1)!.match(/^(.+?)\s*[/-]\s*([A-Za-z]{2})$/);
+  const num = parts[1].match(/^(\d+|s\/?n)\b\s*(.*)$/i);
+  if (!city || !num) return undefined;
+  const complemento = [num[2], ...parts.slice(2, -2)].filter(Boolean).join(", ");
+  return {
+    cep, logradouro: parts[0], numero: num[1], complemento: complemento || undefined,
+    bairro: parts.at(-2), localidade: city[1], uf: city[2].toUpperCase(),
+  };
+}
+// lista dos ecopontos mais próximos que aceitam os itens informados
+function ecopontosText(l: Locale, origin: Origin, labels: string[] = []) {
+  const list = nearestEcopontos(origin, labels);
+  if (!list.length) return t(l).noEcopontos;
+  return list.map((p) => formatEcoponto(p, labels, l)).join("\n\n");
+}
+// addr pode levar lat/lng (localização compartilhada): ecopontos pela distância real
+function outOfAreaText(l: Locale, addr: Address & Origin, labels: string[]) {
+  const place = addr.localidade && addr.uf ? `${addr.localidade}/${addr.uf}` : `CEP ${addr.cep}`;
+  return [t(l).outOfArea(place), "", ecopontosText(l, addr, labels), "", t(l).otherCep].join("\n");
+}
+
+// "Voltar" da lista de dias: acesso (itens volumosos) ou número; o reagendamento não tem passo anterior
+const daysBack = (d: Draft): Step | undefined =>
+  d.reschedule ? undefined : cartLabels(d.items).some(isBulky) ? "await_access" : "await_number";
+
+// back: passo anterior (ausente no reagendamento, que não passa pelo fluxo)
+function kbDays(l: Locale, rules: SlotRules = {}, back?: Step) {
   const kb = new InlineKeyboard();
-  for (const d of nextDays(7)) kb.text(d.label, `day:${d.iso}`).row();
-  kb.text("Cancelar", "cancel");
+  for (const d of nextDays(7, rules, new Date(), l)) kb.text(d.label, `day:${d.iso}`).row();
+  if (back) kb.text(t(l).back, `back:${back}`);
+  kb.text(t(l).cancel, "cancel");
   return kb;
 }
-function kbTimes(dayISO: string) {
+async function kbTimes(l: Locale, dayISO: string, rules: SlotRules = {}) {
   const kb = new InlineKeyboard();
-  for (const t of TIME_SLOTS) kb.text(t, `time:${dayISO}T${t}`).row();
-  kb.text("Voltar dias", "back:days").text("Cancelar", "cancel");
+  const times = bookableTimes(dayISO, rules);
+  const usage = await Promise.all(times.map((time) => slotUsage(dayISO, time)));
+  times.forEach((time, i) => {
+    const left = slotCapacity(dayISO, time) - usage[i];
+    if (left <= 0) kb.text(`${time} (${t(l).soldOut})`, `full:${dayISO}T${time}`).row();
+    else kb.text(time, `time:${dayISO}T${time}`).row();
+  });
+  kb.text(t(l).backToDays, "back:days").text(t(l).cancel, "cancel");
   return kb;
 }
-function kbQty() {
+// "Voltar" leva a um passo anterior do fluxo (back:<Step>)
+function withBack(l: Locale, kb: InlineKeyboard, step: Step) {
+  if (kb.inline_keyboard.at(-1)?.length) kb.row();
+  return kb.text(t(l).back, `back:${step}`);
+}
+const kbBack = (l: Locale, step: Step) => withBack(l, new InlineKeyboard(), step);
+
+function kbQty(l: Locale) {
   const kb = new InlineKeyboard();
   for (let i = 1; i <= 6; i++) kb.text(String(i), `qty:${i}`).row();
   kb.text("7–9", "qty:range").text("10+", "qty:other");
+  return withBack(l, kb, "await_confirm");
+}
+function kbConfirm(l: Locale, name: string) {
+  return new InlineKeyboard()
+    .text(t(l).confirmYes(name), "confirm:yes").row()
+    .text(t(l).pickFromList, "pick:list").row()
+    .text(t(l).sendOtherPhotoNo, "confirm:no");
+}
+function kbCandidates(l: Locale, preds: Pred[]) {
+  const kb = new InlineKeyboard();
+  preds.forEach((p, i) =>
+    kb.text(`${itemName(p.label, l)} (${formatNumber(p.score, l, { style: "percent" })})`, `pick:${i}`).row());
+  kb.text(t(l).pickOther, "pick:list").row();
+  kb.text(t(l).sendOtherPhoto, "confirm:no");
+  return kb;
+}
+function kbCategories(l: Locale) {
+  const kb = new InlineKeyboard();
+  Object.keys(LABEL_PT).forEach((label, i) => {
+    kb.text(itemName(label, l), `cat:${label}`);
+    if (i % 2 === 1) kb.row();
+  });
+  kb.row().text(t(l).sendOtherPhoto, "confirm:no");
   return kb;
 }
-function kbConfirm(labelPT: string) {
+function kbProfile(l: Locale) {
   return new InlineKeyboard()
-    .text(`✅ Sim, é ${labelPT}`, "confirm:yes").row()
-    .text("❌ Não, enviar outra foto", "confirm:no");
+    .text(t(l).profileUse, "profile:use").row()
+    .text(t(l).profileUpdate, "profile:update");
+}
+// teclado de resposta: o Telegram só pede a localização por botão fora da mensagem
+function kbLocation(l: Locale) {
+  return new Keyboard().requestLocation(t(l).shareLocation).resized().oneTime();
+}
+const removeKeyboard = { remove_keyboard: true as const };
+// o teclado some depois de usado (oneTime/removeKeyboard): reenviado sempre que o fluxo volta ao CEP
+function offerLocation(ctx: BotContext) {
+  return ctx.reply(t(ctx.locale).orShareLocation, { parse_mode: "Markdown", reply_markup: kbLocation(ctx.locale) });
+}
+function kbLocationConfirm(l: Locale) {
+  return withBack(l, new InlineKeyboard().text(t(l).locationOk, "loc:yes").text(t(l).typeCep, "loc:no"), "await_more");
+}
+
+function kbRetryCep(l: Locale) {
+  return withBack(l, new InlineKeyboard().text(t(l).retryCep, "addr:retry"), "await_more");
+}
+
+function kbSavedAddress(l: Locale, a: Address) {
+  return new InlineKeyboard().text(t(l).useSaved(`${a.logradouro || a.cep}${a.numero ? `, ${a.numero}` : ""}`), "addr:saved");
+}
+function kbCep(l: Locale, saved?: Address) {
+  return withBack(l, saved?.cep ? kbSavedAddress(l, saved) : new InlineKeyboard(), "await_more");
+}
+function kbAccess(l: Locale) {
+  const kb = new InlineKeyboard();
+  for (const [k, label] of Object.entries(t(l).access)) kb.text(label, `access:${k}`).row();
+  return withBack(l, kb, "await_number");
+}
+function kbMore(l: Locale) {
+  return withBack(l, new InlineKeyboard()
+    .text(t(l).moreYes, "more:yes").row()
+    .text(t(l).moreNo, "more:no"), "await_qty");
+}
+function kbOrder(l: Locale, o: Order) {
+  const kb = new InlineKeyboard();
+  if (!isOpenOrder(o)) return kb;
+  return kb
+    .text(t(l).reschedule, `order:resched:${o.protocol}`)
+    .text(t(l).cancelOrder, `order:cancel:${o.protocol}`);
+}
+// /idioma: um botão por idioma atendido
+function kbLanguages() {
+  const kb = new InlineKeyboard();
+  for (const l of LOCALES) kb.text(t(l).languageName, `lang:${l}`).row();
+  return kb;
+}
+
+function formatOrderLine(l: Locale, o: Order) {
+  const dateStr = formatDay(o.schedule.day, undefined, l);
+  return [
+    `*${o.protocol}* — ${t(l).status[o.status]}`,
+    ...o.items.map((it) => `• ${it.qty}× ${itemName(it.item.label, l)}`),
+    `• ${dateStr} ${t(l).at} ${o.schedule.time}`,
+    `• ${formatAddressPT(o.address)}`,
+  ].join("\n");
+}
+
+// convite .ics e comprovante em PDF; falha no envio não desfaz o pedido já gravado
+async function sendReceipts(ctx: BotContext, o: Order) {
+  const m = t(o.locale);
+  try {
+    await ctx.replyWithDocument(new InputFile(orderIcs(o), `ecoleta-${o.protocol}.ics`), { caption: m.receipt.icsCaption });
+    const pdf = orderReceiptPdf(o, pickupLink(ctx.me.username, o.protocol));
+    await ctx.replyWithDocument(new InputFile(pdf, `ecoleta-${o.protocol}.pdf`), { caption: m.receipt.pdfCaption });
+  } catch (e) {
+    console.error("[RECEIPT] falha ao enviar comprovante", o.protocol, e);
+  }
 }
 
 // ---------- fluxo ----------
 bot.command("cancel", async (ctx) => {
-  await setDraft(ctx.chat!.id, { step: "name", user: {}, address: {}, schedule: {} });
-  await ctx.reply("Fluxo cancelado. Envie /start para começar novamente.");
+  await setDraft(ctx.chat!.id, newDraft(await getDraft(ctx.chat!.id)));
+  await ctx.reply(t(ctx.locale).cancelled);
 });
 
+function kbConsent(l: Locale) {
+  return new InlineKeyboard()
+    .text(t(l).consentYes, "consent:yes").row()
+    .text(t(l).consentNo, "consent:no");
+}
+
 bot.command("start", async (ctx) => {
-  await setDraft(ctx.chat!.id, { step: "name", user: {}, address: {}, schedule: {} });
-  await ctx.reply("Olá! Eu sou o bot da E-Coleta ♻️\n\nVamos começar com seus dados.\n\n👉 *Seu nome completo?*", {
-    parse_mode: "Markdown",
+  const m = t(ctx.locale);
+  // QR do comprovante lido pela equipe: abre o pedido com os botões de status, sem mexer no rascunho
+  if (isPickupPayload(ctx.match) && isOperator(ctx.from?.id)) {
+    const protocol = parsePickupPayload(ctx.match);
+    if (!protocol) return ctx.reply("QR code inválido (assinatura não confere).");
+    const o = await getOrder(protocol);
+    if (!o) return ctx.reply("Pedido não encontrado.");
+    return ctx.reply(formatOrderOperator(o), { parse_mode: "Markdown", reply_markup: kbOperator(o) });
+  }
+  await setDraft(ctx.chat!.id, newDraft());
+  const profile = ctx.from && await getProfile(ctx.from.id);
+  if (isCompleteProfile(profile)) {
+    return ctx.reply(m.welcomeBack(profile.user.name!), { parse_mode: "Markdown", reply_markup: kbProfile(ctx.locale) });
+  }
+  await ctx.reply(m.consent, { parse_mode: "Markdown", reply_markup: kbConsent(ctx.locale) });
+});
+
+bot.command("meuspedidos", async (ctx) => {
+  const orders = await listOrders(ctx.chat!.id);
+  if (!orders.length) {
+    return ctx.reply(t(ctx.locale).noOrders);
+  }
+  // mais recentes primeiro
+  for (const o of orders.slice(-10).reverse()) {
+    await ctx.reply(formatOrderLine(ctx.locale, o), { parse_mode: "Markdown", reply_markup: kbOrder(ctx.locale, o) });
+  }
+});
+
+// LGPD: exporta os dados pessoais que guardamos sobre o usuário.
+// Lista explícita de campos: estado interno (ids de arquivo, passo, versões) fica de fora;
+// CPF e telefone saem mascarados, como em toda mensagem do bot.
+const exportUser = (u?: UserInfo) => u && {
+  name: u.name ?? null, cpf: u.cpf ? maskCPF(u.cpf) : null, phone: u.phone ? maskPhone(u.phone) : null,
+};
+const exportItems = (items: CartItem[] = []) => items.map((it) => ({ item: it.item.label, qty: it.qty }));
+
+function myData(profile: Profile | undefined, d: Draft, orders: Order[], locale?: Locale) {
+  return {
+    exportedAt: new Date().toISOString(),
+    language: locale ?? null,
+    profile: profile ? {
+      user: exportUser(profile.user), address: profile.address ?? null,
+      consentAt: profile.consentAt ?? null, updatedAt: profile.updatedAt,
+    } : null,
+    // pedido em andamento, se houver
+    draft: d.user?.name || d.items?.length ? {
+      user: exportUser(d.user), items: exportItems(d.items), address: d.address ?? null,
+      location: d.location ?? null, access: d.access ?? null, schedule: d.schedule ?? null, consentAt: d.consentAt ?? null,
+    } : null,
+    orders: orders.map((o) => ({
+      protocol: o.protocol, status: o.status, createdAt: o.createdAt, updatedAt: o.updatedAt ?? null,
+      user: exportUser(o.user), items: exportItems(o.items), address: o.address,
+      location: o.location ?? null, access: o.access ?? null, schedule: o.schedule,
+    })),
+  };
+}
+
+bot.command("meusdados", async (ctx) => {
+  const chatId = ctx.chat!.id;
+  const [profile, draft, orders, locale] = await Promise.all([
+    ctx.from ? getProfile(ctx.from.id) : undefined,
+    getDraft(chatId),
+    listOrders(chatId),
+    ctx.from ? getUserLocale(ctx.from.id) : undefined,
+  ]);
+  const dump = myData(profile, draft, orders, locale);
+  await ctx.replyWithDocument(
+    new InputFile(Buffer.from(JSON.stringify(dump, null, 2), "utf8"), `meus-dados-ecoleta.json`),
+    { caption: t(ctx.locale).myDataCaption }
+  );
+});
+
+bot.command("apagardados", async (ctx) => {
+  const m = t(ctx.locale);
+  await ctx.reply(m.eraseConfirm, {
+    reply_markup: new InlineKeyboard()
+      .text(m.eraseYes, "erase:yes").row()
+      .text(m.no, "erase:no"),
   });
 });
 
-bot.command("help", (ctx) =>
-  ctx.reply("Comandos: /start, /cancel.\nFluxo: Nome → CPF → Telefone → Foto/Arquivo → Confirmação → Quantidade → CEP → Número → Data/Hora.")
-);
+async function eraseUserData(chatId: number, userId: number) {
+  for (const o of await listOrders(chatId)) {
+    if (isOpenOrder(o)) await releaseSlot(o.schedule.day, o.schedule.time);
+    const { numero, complemento, logradouro, cep, ...area } = o.address;
+    await saveOrder({
+      ...o,
+      status: isOpenOrder(o) ? "cancelado" : o.status,
+      user: {},
+      address: area, // mantém só bairro/cidade para estatística
+      location: undefined,
+      items: o.items.map(({ fileId, ...it }) => it),
+      updatedAt: new Date().toISOString(),
+    });
+  }
+  const feedback = await store.keys(feedbackKey(chatId));
+  await Promise.all([
+    store.del(profileKey(userId)), store.del(draftKey(chatId)), store.del(localeKey(userId)),
+    ...feedback.map((key) => store.del(key)),
+  ]);
+  console.log("[LGPD] dados apagados, chat", chatId);
+}
+
+// /idioma [pt|en|es] — sem argumento mostra os botões
+bot.command("idioma", async (ctx) => {
+  const l = parseLocale(String(ctx.match || ""));
+  if (!l) return ctx.reply(t(ctx.locale).chooseLanguage, { reply_markup: kbLanguages() });
+  await setUserLocale(ctx.from!.id, l);
+  await ctx.reply(t(l).languageSet, { parse_mode: "Markdown" });
+});
+
+// /ecopontos [CEP] — pontos de entrega mais próximos (CEP, endereço salvo ou pedido em andamento)
+bot.command("ecopontos", async (ctx) => {
+  const l = ctx.locale;
+  const chatId = ctx.chat.id;
+  const d = await getDraft(chatId);
+  const labels = d.item ? [d.item.label] : cartLabels(d.items);
+  let origin: Origin = d.address?.cep ? d.address : (await getProfile(ctx.from!.id))?.address ?? {};
+  const cep = onlyDigits(String(ctx.match || ""));
+  if (cep) {
+    if (cep.length !== 8) return ctx.reply(t(l).ecopontosInvalidCep);
+    try {
+      const found = await resolveCep(cep);
+      if (!found) return ctx.reply(t(l).ecopontosCepNotFound);
+      origin = found;
+    } catch (e) {
+      if (!(e instanceof CepUnavailableError)) console.error(e);
+      origin = { cep };
+    }
+  }
+  const header = labels.length
+    ? t(l).ecopontosFor(labels.map((label) => itemName(label, l)).join(", "))
+    : t(l).ecopontosAll;
+  return ctx.reply(`${header}\n\n${ecopontosText(l, origin, labels)}`, { parse_mode: "Markdown" });
+});
+
+bot.command("help", (ctx) => ctx.reply(t(ctx.locale).help));
+
+// ---------- comandos da equipe (operadores) ----------
+const operatorOnly = async (ctx: Context, next: NextFunction) => {
+  if (isOperator(ctx.from?.id)) return next();
+  console.warn("[OPERATOR] acesso negado", ctx.from?.id);
+  await ctx.reply("Comando restrito à equipe de coleta.");
+};
+
+// "16/09", "16/09/2025" ou "2025-09-16"; vazio = hoje
+function parseDayArg(arg: string): string | undefined {
+  const a = arg.trim();
+  if (!a) return localDayISO();
+  if (/^\d{4}-\d{2}-\d{2}$/.test(a)) return a;
+  const m = a.match(/^(\d{1,2})\/(\d{1,2})(?:\/(\d{4}))?$/);
+  if (!m) return undefined;
+  const year = m[3] ?? localDayISO().slice(0, 4);
+  return `${year}-${pad2(Number(m[2]))}-${pad2(Number(m[1]))}`;
+}
+
+function formatOrderOperator(o: Order) {
+  return [
+    `*${o.protocol}* — ${STATUS_PT[o.status]}`,
+    `• ${formatDay(o.schedule.day)} às ${o.schedule.time}`,
+    `• Nome: ${o.user.name ?? "—"}`,
+    `• CPF: ${maskCPF(o.user.cpf)}`,
+    `• Telefone: ${maskPhone(o.user.phone)}`,
+    ...o.items.map((it) => `• ${it.qty}× ${toPT(it.item.label)}${catalogItem(it.item.label).hazardous ? " ☣️" : ""}`),
+    `• Peso estimado: ~${Math.ceil(estimatedWeightKg(o.items))} kg`,
+    ...(o.access ? [`• Acesso: ${t().access[o.access]}`] : []),
+    `• ${formatAddressPT(o.address)}`,
+    ...(o.location ? [`• Mapa: https://maps.google.com/?q=${o.location.lat},${o.location.lng}`] : []),
+  ].join("\n");
+}
+function kbOperator(o: Order) {
+  const kb = new InlineKeyboard();
+  if (!isOpenOrder(o)) return kb;
+  if (o.status === "agendado") kb.text("👍 Confirmar", `op:confirmado:${o.protocol}`);
+  return kb
+    .text("✅ Coletado", `op:coletado:${o.protocol}`).row()
+    .text("🚪 Não encontrado", `op:ausente:${o.protocol}`);
+}
+
+bot.command("agenda", operatorOnly, async (ctx) => {
+  const dayISO = parseDayArg(ctx.match);
+  if (!dayISO) return ctx.reply("Data inválida. Use /agenda 16/09 ou /agenda 2025-09-16.");
+  const orders = (await listOrdersByDay(dayISO)).filter((o) => o.status !== "cancelado");
+  if (!orders.length) return ctx.reply(`Nenhuma coleta em ${formatDay(dayISO)}.`);
+
+  const lines = [`🗓️ *Agenda de ${formatDay(dayISO)}* — ${orders.length} coleta(s)`];
+  for (const time of TIME_SLOTS) {
+    const inSlot = orders.filter((o) => o.schedule.time === time);
+    if (!inSlot.length) continue;
+    lines.push("", `*${time}* (${inSlot.length}/${slotCapacity(dayISO, time)})`);
+    const byBairro = new Map<string, Order[]>();
+    for (const o of inSlot) {
+      const b = o.address.bairro || "Sem bairro";
+      byBairro.set(b, [...(byBairro.get(b) ?? []), o]);
+    }
+    for (const [bairro, list] of [...byBairro].sort(([a], [b]) => a.localeCompare(b, "pt-BR"))) {
+      lines.push(`_${bairro}_`);
+      for (const o of list) {
+        const items = o.items.map((it) => `${it.qty}× ${toPT(it.item.label)}`).join(", ");
+        lines.push(`• ${o.protocol} ${STATUS_PT[o.status]} — ${items}`);
+      }
+    }
+  }
+  lines.push("", "Detalhes: /pedido <protocolo>");
+  await ctx.reply(lines.join("\n"), { parse_mode: "Markdown" });
+});
+
+bot.command("pedido", operatorOnly, async (ctx) => {
+  const protocol = ctx.match.trim().toUpperCase();
+  if (!protocol) return ctx.reply("Uso: /pedido <protocolo>");
+  const o = await getOrder(protocol);
+  if (!o) return ctx.reply("Pedido não encontrado.");
+  await ctx.reply(formatOrderOperator(o), { parse_mode: "Markdown", reply_markup: kbOperator(o) });
+});
+
+// /stats [data] — funil do dia: chats que chegaram a cada passo e quantos pararam nele
+bot.command("stats", operatorOnly, async (ctx) => {
+  const dayISO = parseDayArg(ctx.match);
+  if (!dayISO) return ctx.reply("Data inválida. Use /stats 16/09 ou /stats 2025-09-16.");
+  const funnel = await funnelReport(dayISO);
+  const first = funnel[0].count;
+  if (!first) return ctx.reply(`Nenhuma conversa registrada em ${formatDay(dayISO)}.`);
+  const pct = (n: number, of: number) => `${of ? Math.round((n / of) * 100) : 0}%`;
+  const lines = [`📊 *Funil de ${formatDay(dayISO)}*`, ""];
+  for (const { step, count, dropped } of funnel) {
+    lines.push(`\`${step}\` ${count}${dropped ? ` — pararam aqui: ${dropped} (${pct(dropped, count)})` : ""}`);
+  }
+  lines.push("", `Conversão (nome → pedido): *${pct(funnel.at(-1)!.count, first)}*`);
+  await ctx.reply(lines.join("\n"), { parse_mode: "Markdown" });
+});
 
 // DEBUG para ver envs/estado
-bot.command("debug", async (ctx) => {
+bot.command("debug", operatorOnly, async (ctx) => {
   const chatId = ctx.chat!.id;
   const d = await getDraft(chatId);
   const hasUrl = !!process.env.UPSTASH_REDIS_REST_URL;
   const hasTok = !!process.env.UPSTASH_REDIS_REST_TOKEN;
-  const storeType = hasUrl && hasTok ? "upstash" : "memory";
+  const storeType = storeBackend();
   await ctx.reply(
     [
       `Store: ${storeType}`,
@@ -287,185 +693,763 @@ bot.command("debug", async (ctx) => {
       `Tem user? ${d.user?.name ? "sim" : "não"}`,
       `Tem item? ${d.item ? "sim" : "não"}`,
       `Tem qty? ${d.qty ?? "não"}`,
+      `Itens no carrinho: ${d.items?.length ?? 0}`,
       `Tem CEP? ${d.address?.cep ? "sim" : "não"}`
     ].join("\n")
   );
 });
 
-// KVTEST para testar Upstash (mostra raw e unwrapped)
-bot.command("kvtest", async (ctx) => {
-  const key = `ecoleta:test:${Date.now()}`;
-  const value = { ok: true, ts: Date.now() };
+// KVTEST: verificações rápidas do contrato no Store ativo (o contrato completo: npm run store-contract)
+bot.command("kvtest", operatorOnly, async (ctx) => {
+  const b = storeBackend();
   try {
-    await store.set(key, value, 60);
-    const rawResp = await fetch(`${process.env.UPSTASH_REDIS_REST_URL}/get/${encodeURIComponent(key)}`, {
-      headers: { Authorization: `Bearer ${process.env.UPSTASH_REDIS_REST_TOKEN!}` },
-      cache: "no-store",
-    });
-    const j = await rawResp.json();
-    const unwrapped = unwrapUpstash<typeof value>(j.result);
-    await ctx.reply(
-      `KVTEST: set/get OK\nchave=${key}\nraw=${JSON.stringify(j.result)}\nunwrapped=${JSON.stringify(unwrapped)}`
-    );
+    const results = await runStoreContract(store, { quick: true });
+    const failed = results.filter((r) => !r.ok);
+    await ctx.reply([
+      `KVTEST (contrato do Store)`,
+      `${failed.length ? "❌" : "✅"} ${b}: ${results.length - failed.length}/${results.length}`,
+      ...failed.map((r) => `   • ${r.name}: ${r.error}`),
+    ].join("\n"));
   } catch (e: any) {
-    await ctx.reply(`KVTEST: erro ${e?.message || e}`);
+    await ctx.reply(`KVTEST (contrato do Store)\n❌ ${b}: ${e?.message || e}`);
   }
 });
 
+const formatCart = (l: Locale, items: CartItem[]) =>
+  items.map((it) => `• ${it.qty}× ${itemName(it.item.label, l)}`).join("\n");
+const formatWeight = (l: Locale, items: CartItem[]) => `~${formatNumber(Math.ceil(estimatedWeightKg(items)), l)} kg`;
+
+// fecha o item atual com a quantidade e pergunta se há mais itens
+// (calculado sobre o estado atual: dois toques rápidos não duplicam a linha)
+async function addToCart(l: Locale, chatId: number, d: Draft, qty: number) {
+  const label = d.item!.label;
+  const nd = await mergeDraft(chatId, (cur) => {
+    if (!cur.item) return {};
+    const top = cur.predicted?.[0];
+    const line: CartItem = {
+      item: cur.item, qty, fileId: cur.latestFileId,
+      ...(top && top.label !== cur.item.label ? { predicted: top } : {}),
+    };
+    return { items: [...(cur.items || []), line], item: undefined, qty: undefined, predicted: undefined, step: "await_more" as const };
+  });
+  const m = t(l);
+  return {
+    text: `${m.added(`${qty}× ${itemName(label, l)}`)}\n\n${m.cartTitle}\n${formatCart(l, nd.items || [])}\n\n${m.askMore}`,
+    kb: kbMore(l),
+  };
+}
+
+// regras de agenda do pedido em andamento, ou do pedido sendo reagendado
+async function scheduleRules(d: Draft): Promise<SlotRules> {
+  if (d.reschedule) return cartRules(cartLabels((await getOrder(d.reschedule))?.items));
+  return cartRules(cartLabels(d.items));
+}
+
+// aplica o catálogo ao item escolhido: só-ecoponto, conflitos no carrinho e instruções de segurança
+async function acceptItem(l: Locale, chatId: number, d: Draft, item: Pred) {
+  const m = t(l);
+  const labels = cartLabels(d.items);
+  const info = catalogItem(item.label);
+  const name = itemName(item.label, l);
+  const conflict = cartConflict(labels, item.label);
+  const reject = isDropOffOnly(item.label)
+    ? m.dropOffOnly(name)
+    : conflict && `⚠️ ${m.conflict[conflict](name)}\n${m.separateOrder}`;
+  if (reject) {
+    await mergeDraft(chatId, { item: undefined, step: labels.length ? "await_more" as const : "await_photo" as const });
+    return labels.length
+      ? { text: `${reject}\n\n${m.askMore}`, kb: kbMore(l) }
+      : { text: `${reject}\n\n${m.rejectedSendPhoto}`, kb: undefined };
+  }
+  await mergeDraft(chatId, { item, step: "await_qty" as const });
+  const safety = info.safety ? `\n\n${info.hazardous ? m.hazardNote : m.infoNote} ${m.safety[item.label]}` : "";
+  return { text: `${m.itemOk(name)}${safety}\n\n${m.askQty}`, kb: kbQty(l) };
+}
+
+// endereço definido: itens volumosos perguntam andar/elevador antes da data
+async function afterAddress(l: Locale, chatId: number, d: Draft, addr: Address) {
+  const m = t(l);
+  const labels = cartLabels(d.items);
+  if (labels.some(isBulky)) {
+    await mergeDraft(chatId, { address: addr, step: "await_access" as const });
+    return { text: `${m.addressLabel}\n*${formatAddressPT(addr)}*\n\n${m.bulkyWhere}`, kb: kbAccess(l) };
+  }
+  if (d.editing) {
+    await mergeDraft(chatId, { address: addr });
+    return continueFlow(l, chatId);
+  }
+  await mergeDraft(chatId, { address: addr, step: "await_day" as const });
+  return {
+    text: `${m.addressComplete}\n*${formatAddressPT(addr)}*\n\n${m.chooseDateNow}`,
+    kb: kbDays(l, cartRules(labels), "await_number"),
+  };
+}
+
+// ---------- revisão e navegação ----------
+// resumo do pedido em andamento (dados pessoais mascarados)
+function draftLines(l: Locale, d: Draft) {
+  const f = t(l).field;
+  const s = d.schedule;
+  return [
+    `• ${f.name}: *${d.user?.name}*`,
+    `• ${f.cpf}: *${maskCPF(d.user?.cpf)}*`,
+    `• ${f.phone}: *${maskPhone(d.user?.phone)}*`,
+    `• ${f.items}:`,
+    formatCart(l, d.items || []),
+    `• ${f.weight}: *${formatWeight(l, d.items || [])}*`,
+    ...(d.access ? [`• ${f.access}: *${t(l).access[d.access]}*`] : []),
+    `• ${f.address}: *${formatAddressPT(d.address || {})}*`,
+    ...(s?.day && s.time ? [`• ${f.schedule}: *${formatDay(s.day, undefined, l)}* ${t(l).at} *${s.time}*`] : []),
+  ];
+}
+function kbReview(l: Locale, d: Draft) {
+  const e = t(l).edit;
+  const kb = new InlineKeyboard()
+    .text(e.name, "edit:name").text(e.cpf, "edit:cpf").text(e.phone, "edit:phone").row()
+    .text(e.items, "edit:items").text(e.address, "edit:address").text(e.number, "edit:number").row();
+  if (d.access) kb.text(e.access, "edit:access");
+  kb.text(e.schedule, "edit:schedule").row()
+    .text(t(l).confirmBooking, "review:confirm").row()
+    .text(t(l).back, "back:await_time").text(t(l).cancel, "cancel");
+  return kb;
+}
+// edição do carrinho: quantidade e remoção por linha
+function kbCartEdit(l: Locale, items: CartItem[]) {
+  const kb = new InlineKeyboard();
+  items.forEach((it, i) => {
+    kb.text("➖", `cart:dec:${i}`).text(`${it.qty}× ${itemName(it.item.label, l)}`, `cart:show:${i}`)
+      .text("➕", `cart:inc:${i}`).text("🗑️", `cart:rm:${i}`).row();
+  });
+  return kb.text(t(l).addItem, "cart:add").row().text(t(l).backToReview, "review:show");
+}
+
+// mensagem e teclado de cada passo (Voltar, edição e retomada após edição)
+async function promptFor(l: Locale, step: Step, d: Draft, userId?: number): Promise<{ text: string; kb?: InlineKeyboard }> {
+  const m = t(l);
+  const md = (text: string, kb?: InlineKeyboard) => ({ text, kb });
+  switch (step) {
+    case "name": return md(m.askName);
+    case "cpf": return md(m.askCpf);
+    case "phone": return md(m.askPhone);
+    case "await_photo": return md(m.askPhoto);
+    case "await_confirm":
+      return d.item
+        ? md(m.confirmItem(itemName(d.item.label, l)), kbConfirm(l, itemName(d.item.label, l)))
+        : md(m.askPhoto);
+    case "await_qty": return md(m.askQtyFor(itemName(d.item?.label ?? "", l)), kbQty(l));
+    case "await_more": return md(`${m.cartTitle}\n${formatCart(l, d.items || [])}\n\n${m.askMore}`, kbMore(l));
+    case "await_cep": {
+      const saved = userId ? (await getProfile(userId))?.address : undefined;
+      return md(m.askCep, kbCep(l, saved));
+    }
+    case "await_street": return md(streetPrompt(l, d.address || {}), kbBack(l, "await_cep"));
+    case "await_number": return md(numberPrompt(l, d.address || {}), kbBack(l, "await_cep"));
+    case "await_access": return md(m.bulkyPrompt, kbAccess(l));
+    case "await_day": return md(m.chooseDate, kbDays(l, await scheduleRules(d), daysBack(d)));
+    case "await_time":
+      return d.schedule?.day
+        ? md(m.chooseTime, await kbTimes(l, d.schedule.day, await scheduleRules(d)))
+        : promptFor(l, "await_day", d, userId);
+    case "review": return md([m.reviewTitle, ...draftLines(l, d), "", m.reviewQuestion].join("\n"), kbReview(l, d));
+    default: return md(m.sendStart);
+  }
+}
+
+const replyStep = (ctx: Context, p: { text: string; kb?: InlineKeyboard }) =>
+  ctx.reply(p.text, { parse_mode: "Markdown", reply_markup: p.kb });
+
+// após uma edição: segue para o próximo passo pendente ou volta à revisão
+async function continueFlow(l: Locale, chatId: number, userId?: number) {
+  const d = await getDraft(chatId);
+  const step = pendingStep(d, await scheduleRules(d));
+  const nd = await mergeDraft(chatId, { step, editing: step !== "review" });
+  return promptFor(l, step, nd, userId);
+}
+
 // processa imagem
-async function handleImage(chatId: number, fileId: string) {
+async function handleImage(l: Locale, chatId: number, fileId: string, uniqueId = fileId) {
+  const m = t(l);
+  const rl = await hit("classify", chatId, RATE_LIMIT_CLASSIFY, 60 * 60);
+  if (!rl.allowed) {
+    console.warn("[RATELIMIT] chat", chatId, "classificações", rl.count);
+    throw new RateLimitError(m.tooManyPhotos);
+  }
   try { await bot.api.sendChatAction(chatId, "typing"); } catch {}
-  const [buf, url] = await Promise.all([getFileBuffer(fileId), getFileUrl(fileId)]);
-  const preds = await classifyImage(buf, 1);
-  if (!preds.length) throw new Error("Sem predições");
+  let bytes: Promise<Buffer> | undefined;
+  const img = { key: uniqueId, load: () => (bytes ??= getFileBuffer(fileId)) };
+  const started = Date.now();
+  const track = (outcome: string) => observe(
+    "ecoleta_classification_duration_seconds", { backend: classifier.name, outcome }, (Date.now() - started) / 1000);
+
+  // top-3 numa chamada só (o orçamento de tempo é por chamada); confiante, fica só o primeiro
+  let preds: Pred[];
+  try {
+    preds = await classifier.classify(img, 3);
+    if (!preds.length) throw new Error("Sem predições");
+    if (preds[0].score >= CONFIDENCE_THRESHOLD) preds = preds.slice(0, 1);
+  } catch (e) {
+    await track(e instanceof CircuitOpenError ? "circuit_open" : "error");
+    if (!(e instanceof CircuitOpenError)) throw e;
+    // modelo fora do ar: direto para a escolha manual
+    await mergeDraft(chatId, {
+      latestFileId: fileId, latestFileUniqueId: uniqueId,
+      item: undefined, predicted: [], step: "await_confirm" as const,
+    });
+    return { text: m.classifierDown, kb: kbCategories(l) };
+  }
   const top = preds[0];
+  await track(top.score < CONFIDENCE_THRESHOLD ? "low_confidence" : "confident");
 
-  await mergeDraft(chatId, { latestFileId: fileId, latestFileUrl: url, item: top, step: "await_confirm" as const });
+  await mergeDraft(chatId, {
+    latestFileId: fileId, latestFileUniqueId: uniqueId,
+    item: top, predicted: preds, step: "await_confirm" as const,
+  });
 
-  const labelPT = toPT(top.label);
-  return { text: `Detectei: *${labelPT}*.\nEstá correto?`, kb: kbConfirm(labelPT) };
+  if (top.score < CONFIDENCE_THRESHOLD) {
+    console.log("[IA] baixa confiança", top.label, top.score);
+    return { text: m.lowConfidence, kb: kbCandidates(l, preds) };
+  }
+  const name = itemName(top.label, l);
+  return { text: m.detected(name), kb: kbConfirm(l, name) };
 }
 
-// FOTO: se dados faltarem, guardo a foto e sigo pedindo os dados
-bot.on("message:photo", async (ctx) => {
-  const chatId = ctx.chat!.id;
+// registra a correção manual ao lado do palpite do modelo (para re-treino)
+// só os ids do Telegram: a URL do arquivo leva o token do bot; a imagem é baixada de novo pelo file_id
+const LABEL_FEEDBACK_TTL = 60 * 60 * 24 * 365;
+const feedbackKey = (chatId: number, uniqueId = "") => `ecoleta:feedback:${chatId}:${uniqueId}`;
+async function recordCorrection(chatId: number, d: Draft, chosen: string) {
+  const top = d.predicted?.[0];
+  if (!d.latestFileId || !top || top.label === chosen) return;
+  console.log("[IA] correção manual", top.label, "->", chosen);
+  await store.set(feedbackKey(chatId, d.latestFileUniqueId ?? d.latestFileId), {
+    fileId: d.latestFileId, fileUniqueId: d.latestFileUniqueId, predicted: d.predicted, chosen, at: new Date().toISOString(),
+  }, LABEL_FEEDBACK_TTL);
+}
+
+// FOTO ou imagem enviada como arquivo: se dados faltarem, guardo a imagem e sigo pedindo os dados
+bot.on(["message:photo", "message:document"], async (ctx) => {
+  const l = ctx.locale;
+  const m = t(l);
+  const chatId = ctx.chat.id;
+  const doc = ctx.message.document;
+  if (doc && !doc.mime_type?.startsWith("image/")) {
+    return ctx.reply(m.imageFileOnly, { parse_mode: "Markdown" });
+  }
+  const file = doc ?? ctx.message.photo!.at(-1)!;
   const d = await getDraft(chatId);
-  const best = ctx.message.photo.at(-1)!;
 
-  await mergeDraft(chatId, { latestFileId: best.file_id }); // guarda a foto sempre
+  await mergeDraft(chatId, { latestFileId: file.file_id, latestFileUniqueId: file.file_unique_id }); // guarda a foto sempre
 
-  if (!d.user?.name) {
-    return ctx.reply("Antes de processar a foto, me informe seu *Nome completo*.", { parse_mode: "Markdown" });
-  }
-  if (!d.user?.cpf) {
-    return ctx.reply("Agora, informe seu *CPF* (somente números).", { parse_mode: "Markdown" });
-  }
-  if (!d.user?.phone) {
-    return ctx.reply("Perfeito. Informe seu *telefone com DDD* (ex.: 11987654321).", { parse_mode: "Markdown" });
+  switch (photoGap(d)) {
+    case "consent": return ctx.reply(m.consent, { parse_mode: "Markdown", reply_markup: kbConsent(l) });
+    case "name": return ctx.reply(m.photoNeedsName, { parse_mode: "Markdown" });
+    case "cpf": return ctx.reply(m.photoNeedsCpf, { parse_mode: "Markdown" });
+    case "phone": return ctx.reply(m.cpfThenPhone, { parse_mode: "Markdown" });
   }
 
   try {
-    const { text, kb } = await handleImage(chatId, best.file_id);
+    const { text, kb } = await handleImage(l, chatId, file.file_id, file.file_unique_id);
     await ctx.reply(text, { parse_mode: "Markdown", reply_markup: kb });
   } catch (e: any) {
     console.error(e);
-    const msg = e?.code === "ECONNABORTED"
-      ? "⏱️ O servidor de IA demorou para responder. Tente novamente ou envie como *Arquivo* (sem compressão)."
-      : "❌ Não consegui processar. Tente enviar como *Arquivo* (sem compressão).";
+    const failed = doc ? m.fileFailed : m.photoFailed;
+    const msg = e instanceof RateLimitError ? e.message : e?.code === "ECONNABORTED" ? m.aiTimeout : failed;
     await ctx.reply(msg, { parse_mode: "Markdown" });
   }
 });
 
-// DOCUMENTO (imagem como arquivo)
-bot.on("message:document", async (ctx) => {
-  const chatId = ctx.chat!.id;
+// LOCALIZAÇÃO: alternativa ao CEP
+bot.on("message:location", async (ctx) => {
+  const l = ctx.locale;
+  const m = t(l);
+  const chatId = ctx.chat.id;
   const d = await getDraft(chatId);
-  const doc = ctx.message.document;
-
-  if (!doc.mime_type?.startsWith("image/")) {
-    return ctx.reply("Envie um *arquivo de imagem* (JPG/PNG).", { parse_mode: "Markdown" });
+  if (d.step !== "await_cep" || !d.items?.length) {
+    return ctx.reply(m.locationNotNow, { reply_markup: removeKeyboard });
   }
+  const { latitude, longitude } = ctx.message.location;
+  const location: GeoPoint = { lat: latitude, lng: longitude };
+  await ctx.reply(m.locationReceived, { reply_markup: removeKeyboard });
 
-  await mergeDraft(chatId, { latestFileId: doc.file_id }); // guarda a foto sempre
-
-  if (!d.user?.name) {
-    return ctx.reply("Antes de processar a foto, me informe seu *Nome completo*.", { parse_mode: "Markdown" });
-  }
-  if (!d.user?.cpf) {
-    return ctx.reply("Agora, informe seu *CPF* (somente números).", { parse_mode: "Markdown" });
+  let addr: Address | undefined;
+  try {
+    addr = await geocoder.reverse(location, GEOCODE_TIMEOUT_MS);
+  } catch (e) {
+    console.error("[GEOCODER]", geocoder.name, e);
   }
-  if (!d.user?.phone) {
-    return ctx.reply("Perfeito. Informe seu *telefone com DDD* (ex.: 11987654321).", { parse_mode: "Markdown" });
+  if (!addr?.localidade) {
+    return ctx.reply(m.locationUnknown, { parse_mode: "Markdown" });
   }
-
-  try {
-    const { text, kb } = await handleImage(chatId, doc.file_id);
-    await ctx.reply(text, { parse_mode: "Markdown", reply_markup: kb });
-  } catch (e: any) {
-    console.error(e);
-    const msg = e?.code === "ECONNABORTED"
-      ? "⏱️ O servidor de IA demorou para responder. Tente novamente ou envie como *Arquivo* (sem compressão)."
-      : "❌ Não consegui baixar/processar o arquivo. Tente novamente.";
-    await ctx.reply(msg, { parse_mode: "Markdown" });
+  if (!isCovered(addr)) {
+    console.log("[COVERAGE] fora da área (localização)", addr.localidade, addr.uf);
+    return ctx.reply(outOfAreaText(l, { ...addr, ...location }, cartLabels(d.items)), {
+      parse_mode: "Markdown", reply_markup: kbBack(l, "await_more"),
+    });
   }
+  await mergeDraft(chatId, { address: addr, location, step: "await_location" as const });
+  return ctx.reply(m.locationFound(formatAddressPT(addr)), {
+    parse_mode: "Markdown", reply_markup: kbLocationConfirm(l),
+  });
 });
 
 // CALLBACKS
 bot.on("callback_query:data", async (ctx) => {
+  const l = ctx.locale;
+  const m = t(l);
   const data = ctx.callbackQuery.data ?? "";
-  try { await ctx.answerCallbackQuery(); } catch {}
-
   const [key, ...rest] = data.split(":");
+  try {
+    await ctx.answerCallbackQuery(key === "full" ? { text: m.slotSoldOutToast } : undefined);
+  } catch {}
+
   const payload = rest.join(":");
   const chatId = ctx.chat!.id;
   const d = await getDraft(chatId);
 
+  // Idioma (/idioma)
+  if (key === "lang") {
+    const nl = parseLocale(payload);
+    if (!nl) return;
+    await setUserLocale(ctx.from.id, nl);
+    return ctx.editMessageText(t(nl).languageSet, { parse_mode: "Markdown" });
+  }
+
   // Confirmação
   if (key === "confirm") {
+    if (payload === "yes" || payload === "no") await inc("ecoleta_confirm_total", { answer: payload });
     if (payload === "yes") {
-      await mergeDraft(chatId, { step: "await_qty" as const });
-      return ctx.editMessageText("Perfeito! Quantas unidades você deseja descartar?", {
-        parse_mode: "Markdown", reply_markup: kbQty(),
-      });
+      if (!d.item) return ctx.editMessageText(m.photoFirst, { parse_mode: "Markdown" });
+      const { text, kb } = await acceptItem(l, chatId, d, d.item);
+      return ctx.editMessageText(text, { parse_mode: "Markdown", reply_markup: kb });
     }
     if (payload === "no") {
       await mergeDraft(chatId, { item: undefined, step: "await_photo" as const });
-      return ctx.editMessageText("Sem problemas. Envie outra *foto* do item (de preferência como *Arquivo* para melhor qualidade).", {
-        parse_mode: "Markdown",
+      return ctx.editMessageText(m.anotherPhoto, { parse_mode: "Markdown" });
+    }
+  }
+
+  // Perfil salvo
+  if (key === "profile") {
+    const profile = await getProfile(ctx.from.id);
+    if (payload === "use" && isCompleteProfile(profile)) {
+      await setDraft(chatId, { step: "await_photo", consentAt: profile.consentAt, user: profile.user, address: {}, schedule: {} });
+      return ctx.editMessageText(m.profileLoaded(profile.user.name!), { parse_mode: "Markdown" });
+    }
+    await setDraft(chatId, { ...newDraft(), step: "name", consentAt: profile?.consentAt });
+    return ctx.editMessageText(m.start, { parse_mode: "Markdown" });
+  }
+
+  // LGPD: aceite antes de coletar dados
+  if (key === "consent") {
+    if (payload === "yes") {
+      await mergeDraft(chatId, { consentAt: new Date().toISOString(), step: "name" as const });
+      return ctx.editMessageText(m.start, { parse_mode: "Markdown" });
+    }
+    await setDraft(chatId, newDraft());
+    return ctx.editMessageText(m.consentDeclined);
+  }
+
+  if (key === "erase") {
+    if (payload !== "yes") return ctx.editMessageText(m.eraseKept);
+    await eraseUserData(chatId, ctx.from.id);
+    return ctx.editMessageText(m.erased);
+  }
+
+  if (key === "addr" && payload === "retry") {
+    await mergeDraft(chatId, { address: undefined, step: "await_cep" as const });
+    const saved = (await getProfile(ctx.from.id))?.address;
+    await ctx.editMessageText(m.askCep, { parse_mode: "Markdown", reply_markup: kbCep(l, saved) });
+    return offerLocation(ctx);
+  }
+
+  // Endereço salvo no perfil
+  if (key === "addr" && payload === "saved") {
+    const saved = (await getProfile(ctx.from.id))?.address;
+    if (!saved?.cep || d.step !== "await_cep") {
+      return ctx.editMessageText(m.askCep, { parse_mode: "Markdown" });
+    }
+    if (!isCovered(saved)) {
+      return ctx.editMessageText(outOfAreaText(l, saved, cartLabels(d.items)), {
+        parse_mode: "Markdown", reply_markup: kbBack(l, "await_more"),
       });
     }
+    const { text, kb } = await afterAddress(l, chatId, d, saved);
+    return ctx.editMessageText(text, { parse_mode: "Markdown", reply_markup: kb });
+  }
+
+  // Andar/elevador (itens volumosos)
+  if (key === "access" && payload in m.access) {
+    const access = payload as Access;
+    if (d.editing) {
+      await mergeDraft(chatId, { access });
+      const { text, kb } = await continueFlow(l, chatId, ctx.from.id);
+      return ctx.editMessageText(text, { parse_mode: "Markdown", reply_markup: kb });
+    }
+    await mergeDraft(chatId, { access, step: "await_day" as const });
+    const note = access === "terreo" ? "" : `\n\n${m.groundFloorNote}`;
+    return ctx.editMessageText(`${m.access[access]}.${note}\n\n${m.chooseDateNow}`, {
+      parse_mode: "Markdown", reply_markup: kbDays(l, cartRules(cartLabels(d.items)), "await_access"),
+    });
+  }
+
+  // Escolha manual da categoria (baixa confiança ou correção)
+  if (key === "pick" || key === "cat") {
+    if (payload === "list") {
+      return ctx.editMessageText(m.chooseCategory, { reply_markup: kbCategories(l) });
+    }
+    const chosen = key === "pick" ? d.predicted?.[Number(payload)]?.label : payload;
+    if (!chosen || !(chosen in LABEL_PT)) {
+      return ctx.editMessageText(m.invalidOption, { parse_mode: "Markdown" });
+    }
+    const score = d.predicted?.find((p) => p.label === chosen)?.score ?? 0;
+    await recordCorrection(chatId, d, chosen);
+    const { text, kb } = await acceptItem(l, chatId, d, { label: chosen, score });
+    return ctx.editMessageText(text, { parse_mode: "Markdown", reply_markup: kb });
   }
 
   // Quantidade
   if (key === "qty") {
+    if (!d.item) return ctx.editMessageText(m.photoFirst, { parse_mode: "Markdown" });
     if (payload === "other" || payload === "range") {
       await mergeDraft(chatId, { step: "await_qty" as const });
-      return ctx.editMessageText("Digite a *quantidade* (número inteiro):", { parse_mode: "Markdown" });
+      return ctx.editMessageText(m.typeQty, {
+        parse_mode: "Markdown", reply_markup: kbBack(l, "await_confirm"),
+      });
     }
     const q = Math.max(1, Math.min(999, Number(payload)));
-    await mergeDraft(chatId, { qty: q, step: "await_cep" as const });
-    return ctx.editMessageText(`Ok! Quantidade: *${q}*.\nAgora, informe seu *CEP* (somente números).`, { parse_mode: "Markdown" });
+    const { text, kb } = await addToCart(l, chatId, d, q);
+    return ctx.editMessageText(text, { parse_mode: "Markdown", reply_markup: kb });
+  }
+
+  // Carrinho: mais itens?
+  if (key === "more") {
+    if (payload === "yes") {
+      await mergeDraft(chatId, { step: "await_photo" as const });
+      return ctx.editMessageText(m.nextPhoto, { parse_mode: "Markdown" });
+    }
+    if (!d.items?.length) {
+      return ctx.editMessageText(m.cartEmpty, { parse_mode: "Markdown" });
+    }
+    if (d.editing) {
+      const { text, kb } = await continueFlow(l, chatId, ctx.from.id);
+      return ctx.editMessageText(text, { parse_mode: "Markdown", reply_markup: kb });
+    }
+    // endereço de uma tentativa anterior (CEP fora do ar, localização) não pode bloquear o CEP novo
+    await mergeDraft(chatId, { address: undefined, location: undefined, access: undefined, step: "await_cep" as const });
+    const saved = (await getProfile(ctx.from.id))?.address;
+    await ctx.editMessageText(`${m.cartTitle}\n${formatCart(l, d.items)}\n\n${m.askCepAfterCart}`, {
+      parse_mode: "Markdown", reply_markup: kbCep(l, saved),
+    });
+    return offerLocation(ctx);
+  }
+
+  // Localização compartilhada: confirmação do endereço encontrado
+  if (key === "loc") {
+    if (d.step !== "await_location" || !d.address) {
+      return ctx.editMessageText(m.askCep, { parse_mode: "Markdown" });
+    }
+    if (payload !== "yes") {
+      await mergeDraft(chatId, { address: undefined, location: undefined, step: "await_cep" as const });
+      const saved = (await getProfile(ctx.from.id))?.address;
+      await ctx.editMessageText(m.askCepOk, { parse_mode: "Markdown", reply_markup: kbCep(l, saved) });
+      return offerLocation(ctx);
+    }
+    if (missingStreet(d.address).length) {
+      await mergeDraft(chatId, { step: "await_street" as const });
+      return ctx.editMessageText(`${m.addressLabel}\n*${formatAddressPT(d.address)}*\n\n${streetPrompt(l, d.address)}`, {
+        parse_mode: "Markdown", reply_markup: kbBack(l, "await_cep"),
+      });
+    }
+    await mergeDraft(chatId, { step: "await_number" as const });
+    const ask = d.address.numero ? m.askNumberFound(d.address.numero) : m.askNumber;
+    return ctx.editMessageText(`${m.addressLabel}\n*${formatAddressPT(d.address)}*\n\n${ask}`, {
+      parse_mode: "Markdown", reply_markup: kbBack(l, "await_cep"),
+    });
   }
 
   if (key === "back" && payload === "days") {
-    return ctx.editMessageReplyMarkup({ reply_markup: kbDays() });
+    return ctx.editMessageReplyMarkup({ reply_markup: kbDays(l, await scheduleRules(d), daysBack(d)) });
+  }
+
+  // Voltar um passo (back:<Step>); durante uma edição, volta para a revisão
+  if (key === "back") {
+    if (d.step === "done") return ctx.editMessageText(m.alreadyRegistered);
+    if (d.editing) {
+      const { text, kb } = await continueFlow(l, chatId, ctx.from.id);
+      return ctx.editMessageText(text, { parse_mode: "Markdown", reply_markup: kb });
+    }
+    const step = payload as Step;
+    let nd: Draft;
+    if (step === "await_qty" && d.step === "await_more" && d.items?.length) {
+      // desfaz o último item do carrinho para corrigir a quantidade
+      nd = await mergeDraft(chatId, (cur) => {
+        const last = cur.items?.at(-1);
+        return last ? { items: cur.items!.slice(0, -1), item: last.item, step } : {};
+      });
+    } else if (step === "await_cep") {
+      nd = await mergeDraft(chatId, { address: undefined, location: undefined, access: undefined, step });
+    } else if (step === "await_confirm" || step === "await_more" || step === "await_number"
+      || step === "await_access" || step === "await_time") {
+      nd = await mergeDraft(chatId, { step });
+    } else {
+      return;
+    }
+    const { text, kb } = await promptFor(l, nd.step!, nd, ctx.from.id);
+    await ctx.editMessageText(text, { parse_mode: "Markdown", reply_markup: kb });
+    if (nd.step === "await_cep") await offerLocation(ctx);
+    return;
+  }
+
+  // Revisão: editar um campo e voltar
+  if (key === "edit") {
+    if (d.step !== "review") return ctx.editMessageText(m.notInReview);
+    if (payload === "items") {
+      await mergeDraft(chatId, { editing: true });
+      return ctx.editMessageText(`${m.cartTitle}\n${formatCart(l, d.items || [])}`, {
+        parse_mode: "Markdown", reply_markup: kbCartEdit(l, d.items || []),
+      });
+    }
+    const edits: Record<string, Partial<Draft>> = {
+      name: { step: "name" }, cpf: { step: "cpf" }, phone: { step: "phone" },
+      address: { step: "await_cep", address: undefined, location: undefined, access: undefined },
+      number: { step: "await_number" }, access: { step: "await_access" }, schedule: { step: "await_day" },
+    };
+    if (!edits[payload]) return;
+    const nd = await mergeDraft(chatId, { ...edits[payload], editing: true });
+    const { text, kb } = await promptFor(l, nd.step!, nd, ctx.from.id);
+    await ctx.editMessageText(text, { parse_mode: "Markdown", reply_markup: kb });
+    if (nd.step === "await_cep") await offerLocation(ctx);
+    return;
+  }
+
+  // Revisão: quantidade/remoção de itens do carrinho
+  if (key === "cart") {
+    if (!d.editing) return ctx.editMessageText(m.notInReview);
+    const [op, idx] = [rest[0], Number(rest[1])];
+    if (op === "add") {
+      await mergeDraft(chatId, { step: "await_photo" as const });
+      return ctx.editMessageText(m.newItemPhoto, { parse_mode: "Markdown" });
+    }
+    const nd = await mergeDraft(chatId, (cur) => {
+      const items = [...(cur.items || [])];
+      const it = items[idx];
+      if (!it) return {};
+      if (op === "inc") items[idx] = { ...it, qty: Math.min(999, it.qty + 1) };
+      else if (op === "dec" && it.qty > 1) items[idx] = { ...it, qty: it.qty - 1 };
+      else if (op === "dec" || op === "rm") items.splice(idx, 1);
+      return { items };
+    });
+    if (!nd.items?.length) {
+      await mergeDraft(chatId, { step: "await_photo" as const });
+      return ctx.editMessageText(m.cartEmptied, { parse_mode: "Markdown" });
+    }
+    try {
+      return await ctx.editMessageText(`${m.cartTitle}\n${formatCart(l, nd.items)}`, {
+        parse_mode: "Markdown", reply_markup: kbCartEdit(l, nd.items),
+      });
+    } catch {} // "message is not modified" ao tocar na própria linha
+    return;
+  }
+
+  if (key === "review" && payload === "show") {
+    if (d.step === "done") return ctx.editMessageText(m.alreadyRegistered);
+    const { text, kb } = await continueFlow(l, chatId, ctx.from.id);
+    return ctx.editMessageText(text, { parse_mode: "Markdown", reply_markup: kb });
   }
 
   if (key === "day") {
     const dayISO = payload;
+    const rules = await scheduleRules(d);
+    if (!bookableTimes(dayISO, rules).length) {
+      return ctx.editMessageText(m.dateUnavailable, { reply_markup: kbDays(l, rules, daysBack(d)) });
+    }
     await mergeDraft(chatId, { schedule: { ...(d.schedule || {}), day: dayISO }, step: "await_time" as const });
-    return ctx.editMessageText("Escolha um horário:", { reply_markup: kbTimes(dayISO) });
+    return ctx.editMessageText(m.chooseTime, { reply_markup: await kbTimes(l, dayISO, rules) });
+  }
+
+  if (key === "full") return;
+
+  // Equipe: mudança de status
+  if (key === "op") {
+    if (!isOperator(ctx.from.id)) return;
+    const [status, protocol] = payload.split(":") as [OrderStatus, string];
+    const o = await getOrder(protocol);
+    if (!o) return ctx.editMessageText("Pedido não encontrado.");
+    const no = await updateOrder(protocol, { status });
+    if (!no) {
+      return ctx.editMessageText(`${formatOrderOperator(o)}\n\n⚠️ Mudança de status não permitida.`, { parse_mode: "Markdown" });
+    }
+    console.log("[OPERATOR]", ctx.from.id, protocol, o.status, "->", no.status);
+    await notifyCitizen(no);
+    return ctx.editMessageText(formatOrderOperator(no), { parse_mode: "Markdown", reply_markup: kbOperator(no) });
+  }
+
+  // Pedidos existentes (/meuspedidos e lembretes)
+  if (key === "order") {
+    const [action, protocol] = payload.split(":");
+    const o = await getOrder(protocol);
+    if (!o || o.chatId !== chatId) {
+      return ctx.editMessageText(m.orderNotFound);
+    }
+    if (!isOpenOrder(o)) {
+      return ctx.editMessageText(formatOrderLine(l, o), { parse_mode: "Markdown" });
+    }
+    if (action === "cancel") {
+      return ctx.editMessageText(`${formatOrderLine(l, o)}\n\n${m.cancelQuestion}`, {
+        parse_mode: "Markdown",
+        reply_markup: new InlineKeyboard()
+          .text(m.cancelYes, `order:cancelok:${protocol}`)
+          .text(m.no, `order:keep:${protocol}`),
+      });
+    }
+    if (action === "cancelok") {
+      const no = await updateOrder(protocol, { status: "cancelado" });
+      if (no) await releaseSlot(o.schedule.day, o.schedule.time);
+      return ctx.editMessageText(no ? formatOrderLine(l, no) : m.cancelFailed, {
+        parse_mode: "Markdown",
+      });
+    }
+    if (action === "confirm") {
+      const no = o.status === "confirmado" ? o : await updateOrder(protocol, { status: "confirmado" });
+      return ctx.editMessageText(
+        no ? `${m.thanksConfirm}\n${formatOrderLine(l, no)}` : m.confirmFailed,
+        { parse_mode: "Markdown", reply_markup: no ? kbOrder(l, no) : undefined }
+      );
+    }
+    if (action === "keep") {
+      return ctx.editMessageText(formatOrderLine(l, o), { parse_mode: "Markdown", reply_markup: kbOrder(l, o) });
+    }
+    if (action === "resched") {
+      await mergeDraft(chatId, { reschedule: protocol, schedule: {}, step: "await_day" as const });
+      return ctx.editMessageText(m.rescheduling(protocol), {
+        parse_mode: "Markdown", reply_markup: kbDays(l, cartRules(cartLabels(o.items))),
+      });
+    }
   }
 
   if (key === "time") {
     const iso = payload;           // ex: 2025-09-16T14:00
     const [dayISO, time] = iso.split("T");
-    const nd = await mergeDraft(chatId, { schedule: { day: dayISO, time } });
 
-    // Guardas contra estado perdido
-    if (!nd.user?.name || !nd.user?.cpf || !nd.user?.phone || !nd.item || !nd.qty || !nd.address?.cep) {
-      return ctx.editMessageText(
-        "Quase lá! Parece que o servidor reiniciou e perdi parte do estado.\n\n" +
-        "👉 Envie /start para reiniciar rapidamente, ou reenvie o CEP para retomarmos o passo atual."
-      );
+    if (!d.reschedule && d.step === "done") {
+      return ctx.editMessageText(m.alreadyRegistered);
+    }
+
+    const rules = await scheduleRules(d);
+    if (!isBookable(dayISO, time, rules)) {
+      return ctx.editMessageText(m.timeUnavailable(LEAD_TIME_HOURS), { reply_markup: await kbTimes(l, dayISO, rules) });
+    }
+
+    // Pedido novo: revisão antes de gravar (a vaga só é reservada na confirmação)
+    if (!d.reschedule) {
+      await mergeDraft(chatId, { schedule: { day: dayISO, time } });
+      const { text, kb } = await continueFlow(l, chatId, ctx.from.id);
+      return ctx.editMessageText(text, { parse_mode: "Markdown", reply_markup: kb });
+    }
+
+    // Reagendamento de um pedido existente: mesma trava da confirmação antes de reservar
+    if (d.step === "confirming" && !staleClaim(d)) return ctx.reply(m.stillConfirming);
+    const protocol = d.reschedule;
+    let claimed = false, busy = false;
+    await mergeDraft(chatId, (cur) => {
+      busy = cur.step === "confirming" && !staleClaim(cur);
+      claimed = (cur.step === "await_time" || staleClaim(cur)) && cur.reschedule === protocol;
+      return claimed ? { step: "confirming" as const, claimedAt: new Date().toISOString() } : {};
+    });
+    if (!claimed) return busy ? ctx.reply(m.stillConfirming) : undefined;
+
+    let reserved: boolean;
+    try {
+      reserved = await reserveSlot(dayISO, time);
+    } catch (e) {
+      console.error("[SLOT] falha ao reservar", dayISO, time, e);
+      await mergeDraft(chatId, { step: "await_time" as const });
+      return ctx.editMessageText(m.reserveFailed, { reply_markup: await kbTimes(l, dayISO, rules) });
+    }
+    if (!reserved) {
+      await mergeDraft(chatId, { step: "await_time" as const });
+      return ctx.editMessageText(m.justSoldOut, { reply_markup: await kbTimes(l, dayISO, rules) });
+    }
+    const old = await getOrder(protocol);
+    const no = old && isOpenOrder(old)
+      ? await updateOrder(protocol, { schedule: { day: dayISO, time }, status: "agendado" })
+      : undefined;
+    await mergeDraft(chatId, { reschedule: undefined, step: "done" as const });
+    if (!no) {
+      await releaseSlot(dayISO, time);
+      return ctx.editMessageText(m.rescheduleFailed);
+    }
+    await releaseSlot(old!.schedule.day, old!.schedule.time);
+    await ctx.editMessageText(`${m.rescheduled}\n${formatOrderLine(l, no)}`, { parse_mode: "Markdown" });
+    return sendReceipts(ctx, no);
+  }
+
+  // Revisão confirmada: reserva a vaga e grava o pedido
+  if (key === "review" && payload === "confirm") {
+    if (d.step === "done") return ctx.editMessageText(m.alreadyRegistered);
+    // toque duplo: a primeira confirmação ainda está gravando
+    if (d.step === "confirming" && !staleClaim(d)) return ctx.reply(m.stillConfirming);
+    if (staleClaim(d) && (await listOrders(chatId)).some((o) => o.createdAt >= d.claimedAt!)) {
+      // a execução que morreu chegou a gravar o pedido: não grava de novo
+      await setDraft(chatId, { step: "done", consentAt: d.consentAt, user: d.user, address: {}, schedule: {} });
+      return ctx.editMessageText(m.alreadyRegistered);
+    }
+
+    // Guardas contra estado perdido (trava vencida vale como revisão)
+    if ((d.step !== "review" && !staleClaim(d)) || !d.user?.name || !d.user?.cpf || !d.user?.phone || !d.items?.length || !d.address?.localidade) {
+      return ctx.editMessageText(m.lostState);
+    }
+
+    const { day: dayISO, time } = d.schedule as Required<Schedule>;
+    const rules = await scheduleRules(d);
+    if (!isBookable(dayISO, time, rules)) {
+      await mergeDraft(chatId, { step: "await_time" as const });
+      return ctx.editMessageText(m.timeUnavailable(LEAD_TIME_HOURS), { reply_markup: await kbTimes(l, dayISO, rules) });
     }
 
-    const addr = nd.address!;
-    const user = nd.user!;
-    const item = nd.item!;
-    const dateStr = new Intl.DateTimeFormat("pt-BR", { dateStyle: "medium" }).format(new Date(dayISO));
+    // trava o rascunho (compare-and-set) antes de reservar: toque duplo ou reentrega não gera dois pedidos
+    let claimed = false, busy = false;
+    await mergeDraft(chatId, (cur) => {
+      busy = cur.step === "confirming" && !staleClaim(cur);
+      claimed = cur.step === "review" || staleClaim(cur);
+      return claimed ? { step: "confirming" as const, claimedAt: new Date().toISOString() } : {};
+    });
+    if (!claimed) return busy ? ctx.reply(m.stillConfirming) : undefined;
+
+    let reserved: boolean;
+    try {
+      reserved = await reserveSlot(dayISO, time);
+    } catch (e) {
+      console.error("[SLOT] falha ao reservar", dayISO, time, e);
+      await mergeDraft(chatId, { step: "review" as const });
+      return ctx.editMessageText(m.reserveFailed, { reply_markup: kbReview(l, d) });
+    }
+    if (!reserved) {
+      await mergeDraft(chatId, { step: "await_time" as const });
+      return ctx.editMessageText(m.justSoldOut, { reply_markup: await kbTimes(l, dayISO, rules) });
+    }
+
+    let order: Order;
+    try {
+      order = await createOrder(chatId, {
+        user: d.user, items: d.items, address: d.address, location: d.location, access: d.access,
+        schedule: { day: dayISO, time }, locale: l,
+      });
+    } catch (e) {
+      await releaseSlot(dayISO, time);
+      await mergeDraft(chatId, { step: "review" as const });
+      throw e;
+    }
+    await saveProfile(ctx.from.id, { user: d.user, address: d.address, consentAt: d.consentAt });
+    // mantém os dados pessoais para um próximo pedido na mesma sessão
+    await setDraft(chatId, { step: "done", consentAt: d.consentAt, user: d.user, address: {}, schedule: {} });
 
     const resumo = [
-      "✅ *Pedido de coleta registrado!*",
-      `• Nome: *${user.name}*`,
-      `• CPF: *${user.cpf}*`,
-      `• Telefone: *${user.phone}*`,
-      `• Item: *${toPT(item.label)}*`,
-      `• Quantidade: *${nd.qty}*`,
-      `• Endereço: *${formatAddressPT(addr)}*`,
-      `• Data/Hora: *${dateStr}* às *${time}*`,
+      m.registered,
+      `• ${m.field.protocol}: *${order.protocol}*`,
+      ...draftLines(l, d),
       "",
-      "_(Aviso: em ambiente serverless o estado pode reiniciar no cold start.)_",
+      m.followUp,
     ].join("\n");
 
     try {
@@ -474,118 +1458,175 @@ bot.on("callback_query:data", async (ctx) => {
       console.error("editMessageText falhou, enviando como reply:", e);
       await ctx.reply(resumo, { parse_mode: "Markdown" });
     }
-    return;
+    return sendReceipts(ctx, order);
   }
 
   if (key === "cancel") {
-    await setDraft(chatId, { step: "name", user: {}, address: {}, schedule: {} });
-    return ctx.editMessageText("Fluxo cancelado. Envie /start para começar novamente.");
+    await setDraft(chatId, newDraft(d));
+    return ctx.editMessageText(m.cancelled);
   }
 });
 
-// TEXTO: dados do usuário, qty manual, CEP, número
+// TEXTO: dados do usuário, qty manual, CEP, número — um caso por passo (ver inputStep)
 bot.on("message:text", async (ctx) => {
+  const l = ctx.locale;
+  const m = t(l);
   const chatId = ctx.chat!.id;
   const txt = (ctx.message.text || "").trim();
   const d = await getDraft(chatId);
 
-  // nome -> cpf -> phone
-  if (d.step === "name" || !d.user?.name) {
-    await mergeDraft(chatId, { user: { ...(d.user || {}), name: txt }, step: "cpf" as const });
-    return ctx.reply("Ótimo! Agora informe seu *CPF* (somente números).", { parse_mode: "Markdown" });
-  }
+  switch (inputStep(d)) {
+    // LGPD: nada é coletado antes do aceite
+    case "consent":
+      return ctx.reply(m.consent, { parse_mode: "Markdown", reply_markup: kbConsent(l) });
 
-  if (d.step === "cpf" || (!d.user?.cpf && d.user?.name)) {
-    const cpf = onlyDigits(txt);
-    if (!isValidCPF(cpf)) {
-      return ctx.reply("CPF inválido. Tente novamente (somente números).");
+    // nome -> cpf -> phone
+    case "name": {
+      await mergeDraft(chatId, (cur) => ({ user: { ...(cur.user || {}), name: txt }, step: "cpf" as const }));
+      if (d.editing) return replyStep(ctx, await continueFlow(l, chatId, ctx.from.id));
+      return ctx.reply(m.nameThenCpf, { parse_mode: "Markdown" });
     }
-    const cpfFmt = cpf.replace(/(\d{3})(\d{3})(\d{3})(\d{2})/, "$1.$2.$3-$4");
-    await mergeDraft(chatId, { user: { ...(d.user || {}), cpf: cpfFmt }, step: "phone" as const });
-    return ctx.reply("Perfeito. Informe seu *telefone com DDD* (ex.: 11987654321).", { parse_mode: "Markdown" });
-  }
 
-  if (d.step === "phone" || (!d.user?.phone && d.user?.cpf)) {
-    if (!isValidPhone(txt)) {
-      return ctx.reply("Telefone inválido. Envie no formato com DDD (ex.: 11987654321).");
+    case "cpf": {
+      const cpf = onlyDigits(txt);
+      if (!isValidCPF(cpf)) {
+        return ctx.reply(m.invalidCpf);
+      }
+      const cpfFmt = cpf.replace(/(\d{3})(\d{3})(\d{3})(\d{2})/, "$1.$2.$3-$4");
+      await mergeDraft(chatId, (cur) => ({ user: { ...(cur.user || {}), cpf: cpfFmt }, step: "phone" as const }));
+      if (d.editing) return replyStep(ctx, await continueFlow(l, chatId, ctx.from.id));
+      return ctx.reply(m.cpfThenPhone, { parse_mode: "Markdown" });
     }
-    const digits = onlyDigits(txt);
-    const fmt = digits.length === 11
-      ? digits.replace(/(\d{2})(\d{5})(\d{4})/, "($1) $2-$3")
-      : digits.replace(/(\d{2})(\d{4})(\d{4})/, "($1) $2-$3");
-    const nd = await mergeDraft(chatId, { user: { ...(d.user || {}), phone: fmt }, step: "await_photo" as const });
 
-    // se já tinha foto guardada, processa direto
-    if (nd.latestFileId) {
-      try {
-        const { text, kb } = await handleImage(chatId, nd.latestFileId);
-        return ctx.reply(text, { parse_mode: "Markdown", reply_markup: kb });
-      } catch (e: any) {
-        console.error(e);
-        const msg = e?.code === "ECONNABORTED"
-          ? "⏱️ O servidor de IA demorou para responder. Tente novamente ou envie como *Arquivo* (sem compressão)."
-          : "Recebi seus dados! Agora envie uma *foto* do item (ou *Arquivo* para melhor qualidade).";
-        return ctx.reply(msg, { parse_mode: "Markdown" });
+    case "phone": {
+      if (!isValidPhone(txt)) {
+        return ctx.reply(m.invalidPhone);
+      }
+      const digits = onlyDigits(txt);
+      const fmt = digits.length === 11
+        ? digits.replace(/(\d{2})(\d{5})(\d{4})/, "($1) $2-$3")
+        : digits.replace(/(\d{2})(\d{4})(\d{4})/, "($1) $2-$3");
+      const nd = await mergeDraft(chatId, (cur) => ({ user: { ...(cur.user || {}), phone: fmt }, step: "await_photo" as const }));
+      await saveProfile(ctx.from.id, { user: nd.user, consentAt: nd.consentAt });
+      if (d.editing) return replyStep(ctx, await continueFlow(l, chatId, ctx.from.id));
+
+      // se já tinha foto guardada, processa direto
+      if (nd.latestFileId) {
+        try {
+          const { text, kb } = await handleImage(l, chatId, nd.latestFileId, nd.latestFileUniqueId);
+          return ctx.reply(text, { parse_mode: "Markdown", reply_markup: kb });
+        } catch (e: any) {
+          console.error(e);
+          const msg = e instanceof RateLimitError ? e.message : e?.code === "ECONNABORTED" ? m.aiTimeout : m.dataReceived;
+          return ctx.reply(msg, { parse_mode: "Markdown" });
+        }
       }
+      return ctx.reply(m.dataSaved, { parse_mode: "Markdown" });
     }
-    return ctx.reply("Dados salvos! ✅ Agora, envie uma *foto* do item (ou como *Arquivo* para melhor qualidade).", { parse_mode: "Markdown" });
-  }
 
-  // quantidade manual
-  if (d.step === "await_qty" && d.item && !d.qty) {
-    const q = Number(onlyDigits(txt));
-    if (!Number.isFinite(q) || q <= 0) return ctx.reply("Quantidade inválida. Envie um número inteiro maior que 0.");
-    await mergeDraft(chatId, { qty: Math.min(999, q), step: "await_cep" as const });
-    return ctx.reply("Agora, informe seu *CEP* (somente números).", { parse_mode: "Markdown" });
-  }
+    // quantidade manual
+    case "await_qty": {
+      if (!d.item || d.qty) break;
+      const q = Number(onlyDigits(txt));
+      if (!Number.isFinite(q) || q <= 0) return ctx.reply(m.invalidQty);
+      const { text, kb } = await addToCart(l, chatId, d, Math.min(999, q));
+      return ctx.reply(text, { parse_mode: "Markdown", reply_markup: kb });
+    }
 
-  // CEP -> ViaCEP -> número
-  if (d.step === "await_cep" && d.item && d.qty && !d.address?.cep) {
-    const cep = onlyDigits(txt);
-    if (cep.length !== 8) return ctx.reply("CEP inválido. Envie 8 dígitos (ex.: 01001000).");
-    try {
-      const via = await fetchViaCEP(cep);
-      if (via.erro) return ctx.reply("CEP não encontrado. Verifique e envie novamente.");
-      const addr: Address = {
-        cep: via.cep, logradouro: via.logradouro, bairro: via.bairro,
-        localidade: via.localidade, uf: via.uf, complemento: via.complemento,
-      };
+    case "await_more":
+      return ctx.reply(m.askMore, { parse_mode: "Markdown", reply_markup: kbMore(l) });
+
+    // CEP -> provedores (ViaCEP, BrasilAPI…) -> rua/bairro se faltarem -> número
+    case "await_cep": {
+      if (!d.items?.length || d.address?.cep) break;
+      const cep = onlyDigits(txt);
+      if (cep.length !== 8) return ctx.reply(m.invalidCep);
+      await ctx.reply(m.cepLookup, { reply_markup: removeKeyboard }); // tira o botão de localização
+      let addr: Address | null;
+      try {
+        addr = await resolveCep(cep);
+      } catch (e) {
+        if (!(e instanceof CepUnavailableError)) console.error(e);
+        await mergeDraft(chatId, { address: { cep: cep.replace(/^(\d{5})(\d{3})$/, "$1-$2") }, step: "await_manual_address" as const });
+        return ctx.reply(`${m.cepUnavailable}\n${m.manualHint}`, { parse_mode: "Markdown", reply_markup: kbRetryCep(l) });
+      }
+      if (!addr) return ctx.reply(m.cepNotFound);
+      if (!isCovered(addr)) {
+        console.log("[COVERAGE] fora da área", addr.localidade, addr.uf, addr.cep);
+        return ctx.reply(outOfAreaText(l, addr, cartLabels(d.items)), { parse_mode: "Markdown", reply_markup: kbBack(l, "await_more") });
+      }
+      if (missingStreet(addr).length) {
+        await mergeDraft(chatId, { address: addr, step: "await_street" as const });
+        return ctx.reply(`${m.addressFoundByCep}\n• ${formatAddressPT(addr)}\n\n${streetPrompt(l, addr)}`, {
+          parse_mode: "Markdown", reply_markup: kbBack(l, "await_cep"),
+        });
+      }
       await mergeDraft(chatId, { address: addr, step: "await_number" as const });
-      return ctx.reply(
-        [
-          "Endereço encontrado pelo CEP:",
-          `• ${formatAddressPT(addr)}`,
-          "",
-          "👉 Informe o *número* da residência (e complemento se houver)."
-        ].join("\n"),
-        { parse_mode: "Markdown" }
-      );
-    } catch (e) {
-      console.error(e);
-      return ctx.reply("Falha ao consultar o CEP. Tente novamente em instantes.");
+      return ctx.reply(numberPrompt(l, addr), { parse_mode: "Markdown", reply_markup: kbBack(l, "await_cep") });
     }
-  }
 
-  if (d.step === "await_number" && d.item && d.qty && d.address?.cep) {
-    const m = txt.match(/^\s*(\d+)\s*(.*)$/);
-    if (!m) return ctx.reply("Informe o número (ex.: 123) e, opcionalmente, complemento (ex.: 123, apto 45).");
-    const numero = m[1]; const complemento = m[2]?.trim() || undefined;
-    const addr = { ...(d.address || {}), numero, complemento };
-    await mergeDraft(chatId, { address: addr, step: "await_day" as const });
-    return ctx.reply(`Endereço completo:\n*${formatAddressPT(addr)}*\n\nAgora, escolha a *data* da coleta:`, {
-      parse_mode: "Markdown", reply_markup: kbDays()
-    });
-  }
+    // CEP genérico: rua e/ou bairro digitados
+    case "await_street": {
+      if (!d.address) break;
+      const missing = missingStreet(d.address);
+      const parts = txt.split(",").map((p) => p.trim()).filter(Boolean);
+      if (!parts.length || parts.length < missing.length) {
+        return ctx.reply(streetPrompt(l, d.address), { parse_mode: "Markdown", reply_markup: kbBack(l, "await_cep") });
+      }
+      const addr: Address = { ...d.address };
+      if (missing.length === 2) {
+        addr.logradouro = parts.slice(0, -1).join(", ");
+        addr.bairro = parts.at(-1);
+      } else if (missing[0] === "rua") addr.logradouro = txt;
+      else addr.bairro = txt;
+      await mergeDraft(chatId, { address: addr, step: "await_number" as const });
+      return ctx.reply(numberPrompt(l, addr), { parse_mode: "Markdown", reply_markup: kbBack(l, "await_cep") });
+    }
+
+    // provedores de CEP fora do ar: endereço digitado por inteiro
+    case "await_manual_address": {
+      if (!d.items?.length) break;
+      const addr = parseManualAddress(txt, d.address?.cep);
+      if (!addr) return ctx.reply(`${m.manualInvalid}\n${m.manualHint}`, { reply_markup: kbRetryCep(l) });
+      if (!isCovered(addr)) {
+        return ctx.reply(outOfAreaText(l, addr, cartLabels(d.items)), { parse_mode: "Markdown", reply_markup: kbBack(l, "await_more") });
+      }
+      const { text, kb } = await afterAddress(l, chatId, d, addr);
+      return ctx.reply(text, { parse_mode: "Markdown", reply_markup: kb });
+    }
+
+    case "await_location":
+      return ctx.reply(m.locationConfirm, { reply_markup: kbLocationConfirm(l) });
+
+    case "await_number": {
+      if (!d.items?.length || !d.address) break;
+      const match = txt.match(/^\s*(\d+)\s*(.*)$/);
+      if (!match) return ctx.reply(m.invalidNumber);
+      const numero = match[1]; const complemento = match[2]?.trim() || undefined;
+      const addr = { ...(d.address || {}), numero, complemento };
+      const { text, kb } = await afterAddress(l, chatId, d, addr);
+      return ctx.reply(text, { parse_mode: "Markdown", reply_markup: kb });
+    }
+
+    case "await_access":
+      return ctx.reply(m.bulkyWhereShort, { reply_markup: kbAccess(l) });
+
+    case "review":
+      return replyStep(ctx, await promptFor(l, "review", d));
+
+    case "done":
+      return ctx.reply(m.done, { parse_mode: "Markdown" });
 
-  // fora do fluxo
-  if (!d.step) {
-    return ctx.reply("Envie /start para iniciar o fluxo de agendamento. 😉");
+    // fora do fluxo
+    case undefined:
+      return ctx.reply(m.startHint);
   }
-  return ctx.reply("Beleza! Siga as instruções acima ou envie /cancel para recomeçar.");
+  return ctx.reply(m.fallback);
 });
 
 // log de erros
-bot.catch((err) => console.error("Erro no bot:", err));
+// só o erro e o update_id: o contexto completo pode conter CPF/telefone digitados
+bot.catch((err) => console.error("Erro no bot:", err.ctx.update.update_id, err.error));
 
 // webhook (Vercel/Render)
-export default webhookCallback(bot, "http");
+export default webhookCallback(bot, "http", { secretToken: WEBHOOK_SECRET });
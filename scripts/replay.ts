@@ -0,0 +1,65 @@
+// scripts/replay.ts — replay local do fluxo: updates roteirizados -> webhookCallback, sem rede
+// Bot API, classificador e ViaCEP são falsos (replay/fakes.ts); geocodificação local.
+// Store em arquivo temporário: cada operação faz I/O de verdade, então updates simultâneos se intercalam como em produção.
+// Uso: npm run replay [-- <trecho do nome do cenário>]   (REPLAY_VERBOSE=1 mostra os logs do bot)
+import { createServer } from "node:http";
+import { randomBytes } from "node:crypto";
+import { rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { AddressInfo } from "node:net";
+import { startFakes } from "./replay/fakes.js";
+
+const TOKEN = "123456:replay";
+const SECRET = "replay-secret";
+const STORE_FILE = join(tmpdir(), `ecoleta-replay-${process.pid}.json`);
+const OPERATOR_ID = 900;
+
+const print = console.log.bind(console);
+if (!process.env.REPLAY_VERBOSE) console.log = console.warn = console.error = () => {};
+
+const fakes = await startFakes(TOKEN);
+
+// antes de importar o bot: os módulos leem o ambiente ao carregar
+for (const k of ["REDIS_URL", "UPSTASH_REDIS_REST_URL", "UPSTASH_REDIS_REST_TOKEN", "STORE_FILE",
+  "COVERAGE_UFS", "COVERAGE_CITIES", "COVERAGE_CEP_RANGES", "SLOT_CAPACITY_OVERRIDES"]) delete process.env[k];
+Object.assign(process.env, {
+  TELEGRAM_TOKEN: TOKEN,
+  TELEGRAM_WEBHOOK_SECRET: SECRET,
+  TELEGRAM_API_ROOT: fakes.url,
+  DATA_ENCRYPTION_KEY: randomBytes(32).toString("hex"),
+  STORE_BACKEND: "file",
+  STORE_FILE,
+  CLASSIFIER: "json",
+  PREDICT_URL: `${fakes.url}/predict`,
+  CEP_PROVIDERS: "viacep",
+  VIACEP_URL: `${fakes.url}/viacep`,
+  GEOCODER: "local",
+  COVERAGE_UFS: "SP", // Rio de Janeiro fica fora da área
+  OPERATOR_IDS: String(OPERATOR_ID),
+  RATE_LIMIT_MSGS: "1000",
+  RATE_LIMIT_CLASSIFY: "1000",
+});
+
+const { default: webhook } = await import("../api/telegram.js");
+const { runReplay } = await import("./replay/scenarios.js");
+
+// erro não tratado no bot vira HTTP 500 (como na Vercel) e reprova o cenário
+const server = createServer((req, res) => webhook(req, res).catch((e: any) => {
+  if (!res.headersSent) res.writeHead(500);
+  res.end(String(e?.error?.message ?? e?.message ?? e));
+}));
+await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+const webhookUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/telegram`;
+
+try {
+  const results = await runReplay({ webhookUrl, secret: SECRET, fakes, operatorId: OPERATOR_ID }, process.argv[2]);
+  const failed = results.filter((r) => !r.ok);
+  for (const r of results) print(`${r.ok ? "✅" : "❌"} ${r.name}${r.error ? `\n   • ${r.error}` : ""}`);
+  print(`\nREPLAY: ${results.length - failed.length}/${results.length} cenários ok`);
+  process.exitCode = failed.length || !results.length ? 1 : 0;
+} finally {
+  server.close();
+  await fakes.close();
+  await rm(STORE_FILE, { force: true });
+}
@@ -0,0 +1,125 @@
+// scripts/replay/fakes.ts — serviços falsos do replay: Bot API do Telegram, classificador e ViaCEP
+// Um único servidor HTTP em 127.0.0.1; nada sai da máquina.
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+
+export type ApiCall = { method: string; params: Record<string, any> };
+
+// resposta no formato do ViaCEP; "down" simula o provedor fora do ar
+export type ViaCepFixture = { cep: string; logradouro: string; bairro: string; localidade: string; uf: string } | "down";
+
+export type Fakes = {
+  url: string;
+  calls: ApiCall[]; // chamadas à Bot API, na ordem
+  failNext(method: string): void; // a próxima chamada ao método responde HTTP 500
+  close(): Promise<void>;
+};
+
+export const BOT_USERNAME = "ecoleta_replay_bot";
+
+export const CEP_FIXTURES: Record<string, ViaCepFixture> = {
+  "01001000": { cep: "01001-000", logradouro: "Praça da Sé", bairro: "Sé", localidade: "São Paulo", uf: "SP" },
+  "13300000": { cep: "13300-000", logradouro: "", bairro: "", localidade: "Itu", uf: "SP" }, // CEP genérico
+  "99999999": "down",
+  // qualquer outro: { erro: true } (CEP inexistente)
+};
+
+// O file_id da foto vira o conteúdo do arquivo, e o classificador lê o rótulo de volta:
+// "img:<rótulo>:<score>" -> top-1 com esse score; "img:broken" -> HTTP 400 (erro não transitório).
+export const imageId = (label: string, score: number) => `img:${label}:${score}`;
+const OTHER_LABELS = ["Keyboard", "Mobile", "Printer", "PCB"];
+
+function predict(image: string, topk: number) {
+  const [, label, score] = image.split(":");
+  const top = { label, score: Number(score) };
+  const rest = OTHER_LABELS.filter((l) => l !== label)
+    .map((l, i) => ({ label: l, score: Number(((1 - top.score) / (i + 2)).toFixed(4)) }));
+  return [top, ...rest].slice(0, topk);
+}
+
+const readBody = (req: IncomingMessage) => new Promise<Buffer>((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  req.on("data", (c) => chunks.push(c));
+  req.on("end", () => resolve(Buffer.concat(chunks)));
+  req.on("error", reject);
+});
+
+// JSON ou multipart (sendDocument com InputFile); o arquivo enviado fica em params.file
+function parseParams(req: IncomingMessage, body: Buffer): Record<string, any> {
+  const type = req.headers["content-type"] || "";
+  if (type.includes("application/json")) return JSON.parse(body.toString("utf8") || "{}");
+  if (!type.includes("multipart/form-data")) return {};
+  const params: Record<string, any> = {};
+  for (const m of body.toString("latin1").matchAll(/name="([^"]+)"(;\s*filename="?([^"\r\n]*)"?)?\r\n(?:[^\r\n]+\r\n)*\r\n/g)) {
+    const start = m.index! + m[0].length;
+    const raw = body.subarray(start, body.indexOf("\r\n--", start));
+    if (m[3] != null) { params.filename = m[3]; params.file = raw; continue; }
+    try { params[m[1]] = JSON.parse(raw.toString("utf8")); } catch { params[m[1]] = raw.toString("utf8"); }
+  }
+  return params;
+}
+
+export async function startFakes(token: string, ceps = CEP_FIXTURES): Promise<Fakes> {
+  const calls: ApiCall[] = [];
+  const failing = new Set<string>();
+  let messageId = 1000;
+  const json = (res: ServerResponse, status: number, data: unknown) => {
+    res.writeHead(status, { "Content-Type": "application/json" }).end(JSON.stringify(data));
+  };
+
+  function botApi(method: string, params: Record<string, any>) {
+    calls.push({ method, params });
+    const message = () => ({
+      message_id: params.message_id ?? ++messageId, date: Math.floor(Date.now() / 1000),
+      chat: { id: Number(params.chat_id), type: "private" }, text: params.text,
+    });
+    switch (method) {
+      case "getMe":
+        return { id: 1, is_bot: true, first_name: "E-Coleta", username: BOT_USERNAME,
+          can_join_groups: false, can_read_all_group_messages: false, supports_inline_queries: false };
+      case "getFile":
+        return { file_id: params.file_id, file_unique_id: params.file_id, file_path: `photos/${encodeURIComponent(params.file_id)}` };
+      case "sendMessage": case "sendDocument": case "editMessageText": case "editMessageReplyMarkup":
+        return message();
+      default:
+        return true;
+    }
+  }
+
+  const server = createServer(async (req, res) => {
+    const url = new URL(req.url || "/", "http://localhost");
+    const body = await readBody(req);
+    let m: RegExpMatchArray | null;
+
+    if ((m = url.pathname.match(/^\/bot([^/]+)\/(\w+)$/))) {
+      if (m[1] !== token) return json(res, 401, { ok: false, error_code: 401, description: "Unauthorized" });
+      if (failing.delete(m[2])) return json(res, 500, { ok: false, error_code: 500, description: "falha simulada" });
+      return json(res, 200, { ok: true, result: botApi(m[2], parseParams(req, body)) });
+    }
+    if ((m = url.pathname.match(/^\/file\/bot[^/]+\/photos\/(.+)$/))) {
+      return res.writeHead(200, { "Content-Type": "image/jpeg" }).end(Buffer.from(decodeURIComponent(m[1]), "utf8"));
+    }
+    // classificador (CLASSIFIER=json): { image: base64, topk } -> { topk }
+    if (url.pathname === "/predict" && req.method === "POST") {
+      const { image, topk } = JSON.parse(body.toString("utf8"));
+      const id = Buffer.from(image, "base64").toString("utf8");
+      if (!id.startsWith("img:") || id === "img:broken") return json(res, 400, { error: "imagem inválida" });
+      return json(res, 200, { topk: predict(id, topk) });
+    }
+    if ((m = url.pathname.match(/^\/viacep\/(\d{8})\/json\/$/))) {
+      const found = ceps[m[1]];
+      if (found === "down") return json(res, 503, { error: "indisponível" });
+      return json(res, 200, found ?? { erro: true });
+    }
+    json(res, 404, { error: `rota falsa inexistente: ${req.method} ${url.pathname}` });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    calls,
+    failNext: (method) => { failing.add(method); },
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
@@ -0,0 +1,591 @@
+// scripts/replay/scenarios.ts — conversas roteirizadas, enviadas como updates ao webhook
+// Cada cenário usa um chat próprio; as verificações olham o que o bot mandou à Bot API falsa e o rascunho no Store.
+import { store } from "../../api/_lib/store.js";
+import { t } from "../../api/_lib/i18n.js";
+import { addDaysISO, bookableTimes, localDayISO, nextDays, slotInstant } from "../../api/_lib/calendar.js";
+import { cartRules } from "../../api/_lib/catalog.js";
+import { itemName } from "../../api/_lib/format.js";
+import { createOrder, getOrder, listOrders, listOrdersByDay, slotUsage, updateOrder } from "../../api/_lib/orders.js";
+import { pickupPayload } from "../../api/_lib/receipt.js";
+import { runReminders } from "../../api/_lib/reminders.js";
+import type { Draft, Step } from "../../api/_lib/flow.js";
+import { imageId, type ApiCall, type Fakes } from "./fakes.js";
+
+export type ReplayEnv = { webhookUrl: string; secret: string; fakes: Fakes; operatorId: number };
+export type ScenarioResult = { name: string; ok: boolean; error?: string };
+
+const m = t("pt-BR");
+// CPF de teste com dígitos verificadores válidos
+const CPF = "529.982.247-25";
+const PHONE = "(11) 98765-4321";
+
+function assert(cond: unknown, msg: string): asserts cond {
+  if (!cond) throw new Error(msg);
+}
+
+// ---------- chat simulado ----------
+type Turn = { calls: ApiCall[]; texts: string[]; buttons: string[] };
+
+let updateId = 1;
+
+class Chat {
+  constructor(private env: ReplayEnv, readonly id: number, private languageCode = "pt-br") {}
+
+  private get from() {
+    return { id: this.id, is_bot: false, first_name: "Replay", language_code: this.languageCode };
+  }
+  private message(extra: Record<string, unknown>) {
+    return { message_id: updateId, date: Math.floor(Date.now() / 1000), chat: { id: this.id, type: "private" }, from: this.from, ...extra };
+  }
+
+  private last?: string;
+
+  async send(update: Record<string, unknown>): Promise<Turn> {
+    return this.post(JSON.stringify({ update_id: ++updateId, ...update }));
+  }
+  // reentrega do último update, como o Telegram faz quando o webhook falha
+  retry() {
+    return this.post(this.last!);
+  }
+  private async post(body: string): Promise<Turn> {
+    this.last = body;
+    const before = this.env.fakes.calls.length;
+    const r = await fetch(this.env.webhookUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "X-Telegram-Bot-Api-Secret-Token": this.env.secret },
+      body,
+    });
+    if (!r.ok) throw new Error(`webhook respondeu HTTP ${r.status}: ${await r.text()}`);
+    const calls = this.env.fakes.calls.slice(before).filter((c) => Number(c.params.chat_id ?? this.id) === this.id);
+    return {
+      calls,
+      texts: calls.map((c) => c.params.text ?? c.params.caption).filter((s): s is string => typeof s === "string"),
+      buttons: calls.flatMap((c) => c.params.reply_markup?.inline_keyboard?.flat() ?? []).map((b: any) => b.callback_data),
+    };
+  }
+
+  text(text: string) {
+    const command = text.match(/^\/\w+/)?.[0];
+    const entities = command ? [{ type: "bot_command", offset: 0, length: command.length }] : undefined;
+    return this.send({ message: this.message({ text, entities }) });
+  }
+  photo(fileId: string) {
+    return this.send({ message: this.message({ photo: [{ file_id: fileId, file_unique_id: fileId, width: 800, height: 600 }] }) });
+  }
+  document(fileId: string, mimeType: string) {
+    return this.send({ message: this.message({ document: { file_id: fileId, file_unique_id: fileId, mime_type: mimeType } }) });
+  }
+  location(latitude: number, longitude: number) {
+    return this.send({ message: this.message({ location: { latitude, longitude } }) });
+  }
+  tap(data: string) {
+    return this.send({
+      callback_query: { id: String(updateId), from: this.from, chat_instance: "replay", data, message: this.message({ text: "" }) },
+    });
+  }
+
+  // passo gravado no Store (os dados pessoais ficam cifrados, o passo não)
+  async step() {
+    return (await store.get<Draft>(`ecoleta:draft:${this.id}`))?.step;
+  }
+}
+
+function expectText(turn: Turn, expected: string) {
+  assert(turn.texts.some((s) => s.includes(expected)), `esperava "${expected}", bot respondeu ${JSON.stringify(turn.texts)}`);
+}
+async function expectStep(chat: Chat, expected: Step) {
+  const step = await chat.step();
+  assert(step === expected, `passo ${step}, esperava ${expected}`);
+}
+
+// ---------- trechos comuns ----------
+let nextChatId = 5000;
+const newChat = (env: ReplayEnv) => new Chat(env, ++nextChatId);
+
+async function register(chat: Chat) {
+  expectText(await chat.text("/start"), m.consent);
+  expectText(await chat.tap("consent:yes"), m.start);
+  expectText(await chat.text("Maria da Silva"), m.nameThenCpf);
+  expectText(await chat.text(CPF), m.cpfThenPhone);
+  expectText(await chat.text(PHONE), m.dataSaved);
+  await expectStep(chat, "await_photo");
+}
+
+async function addItem(chat: Chat, label: string, qty: number) {
+  expectText(await chat.photo(imageId(label, 0.95)), m.detected(itemName(label)));
+  await expectStep(chat, "await_confirm");
+  await chat.tap("confirm:yes");
+  await expectStep(chat, "await_qty");
+  expectText(await chat.tap(`qty:${qty}`), m.askMore);
+  await expectStep(chat, "await_more");
+}
+
+async function giveAddress(chat: Chat, cep = "01001000") {
+  expectText(await chat.tap("more:no"), m.askCepAfterCart);
+  await expectStep(chat, "await_cep");
+  await chat.text(cep);
+  await expectStep(chat, "await_number");
+  await chat.text("100 apto 5");
+}
+
+// horários livres para os itens, do mais próximo ao mais distante
+function slots(labels: string[]) {
+  const rules = cartRules(labels);
+  return nextDays(7, rules).flatMap((d) => bookableTimes(d.iso, rules).map((time) => ({ day: d.iso, time })));
+}
+
+async function book(chat: Chat, labels: string[], pick = 0) {
+  const slot = slots(labels)[pick];
+  assert(slot, "nenhum horário livre nos próximos dias");
+  await chat.tap(`day:${slot.day}`);
+  await expectStep(chat, "await_time");
+  expectText(await chat.tap(`time:${slot.day}T${slot.time}`), m.reviewTitle);
+  await expectStep(chat, "review");
+  return { turn: await chat.tap("review:confirm"), slot };
+}
+
+// pedido completo num chat novo; devolve o chat e o protocolo
+async function placeOrder(env: ReplayEnv) {
+  const chat = newChat(env);
+  await register(chat);
+  await addItem(chat, "Keyboard", 1);
+  await giveAddress(chat);
+  await book(chat, ["Keyboard"]);
+  const [order] = await listOrders(chat.id);
+  assert(order, "pedido não foi gravado");
+  return { chat, protocol: order.protocol };
+}
+
+// ---------- cenários ----------
+const SCENARIOS: [string, (env: ReplayEnv) => Promise<void>][] = [
+  ["pedido completo: cadastro, foto, CEP, agenda, revisão, .ics e PDF", async (env) => {
+    const chat = newChat(env);
+    await register(chat);
+    await addItem(chat, "Keyboard", 2);
+    await giveAddress(chat);
+    await expectStep(chat, "await_day");
+    const { turn, slot } = await book(chat, ["Keyboard"]);
+    expectText(turn, m.registered);
+    const docs = turn.calls.filter((c) => c.method === "sendDocument");
+    assert(docs.length === 2, `${docs.length} documentos enviados, esperava 2`);
+    expectText(turn, m.receipt.icsCaption);
+    expectText(turn, m.receipt.pdfCaption);
+    await expectStep(chat, "done");
+    const orders = await listOrders(chat.id);
+    assert(orders.length === 1 && orders[0].items[0].qty === 2, "pedido gravado difere do carrinho");
+    assert(orders[0].schedule.day === slot.day && orders[0].schedule.time === slot.time, "horário gravado difere do escolhido");
+  }],
+
+  ["foto antes do cadastro fica guardada e é classificada depois", async (env) => {
+    const chat = newChat(env);
+    await chat.text("/start");
+    await chat.tap("consent:yes");
+    expectText(await chat.photo(imageId("Mobile", 0.9)), m.photoNeedsName);
+    await chat.text("João Souza");
+    await chat.text(CPF);
+    expectText(await chat.text(PHONE), m.detected(itemName("Mobile")));
+    await expectStep(chat, "await_confirm");
+  }],
+
+  ["imagem enviada como arquivo segue o mesmo caminho da foto", async (env) => {
+    const chat = newChat(env);
+    await register(chat);
+    expectText(await chat.document("relatorio.pdf", "application/pdf"), m.imageFileOnly);
+    await expectStep(chat, "await_photo");
+    await chat.document(imageId("Printer", 0.92), "image/png");
+    await expectStep(chat, "await_confirm");
+    expectText(await chat.document("img:broken", "image/png"), m.fileFailed);
+    expectText(await chat.photo("img:broken"), m.photoFailed);
+  }],
+
+  ["baixa confiança: top-3 e escolha pela lista de categorias", async (env) => {
+    const chat = newChat(env);
+    await register(chat);
+    const turn = await chat.photo(imageId("Printer", 0.4));
+    expectText(turn, m.lowConfidence);
+    assert(turn.buttons.includes("pick:0") && turn.buttons.includes("pick:list"), "faltam botões do top-3");
+    expectText(await chat.tap("pick:list"), m.chooseCategory);
+    await chat.tap("cat:Microwave");
+    await expectStep(chat, "await_qty");
+    const key = `ecoleta:feedback:${chat.id}:${imageId("Printer", 0.4)}`;
+    const feedback = await store.get<Record<string, unknown>>(key);
+    assert(feedback?.chosen === "Microwave", "correção manual não foi registrada");
+    assert(!JSON.stringify(feedback).includes("/file/bot"), "correção guardou a URL do arquivo (com o token)");
+    await chat.text("/apagardados");
+    await chat.tap("erase:yes");
+    assert((await store.get(key)) === undefined, "/apagardados não removeu a correção");
+  }],
+
+  ["CPF e telefone inválidos mantêm o passo", async (env) => {
+    const chat = newChat(env);
+    await chat.text("/start");
+    await chat.tap("consent:yes");
+    await chat.text("Ana");
+    expectText(await chat.text("111.111.111-11"), m.invalidCpf);
+    await expectStep(chat, "cpf");
+    await chat.text(CPF);
+    expectText(await chat.text("123"), m.invalidPhone);
+    await expectStep(chat, "phone");
+  }],
+
+  ["item só de ecoponto é recusado", async (env) => {
+    const chat = newChat(env);
+    await register(chat);
+    await chat.photo(imageId("Mouse", 0.95));
+    expectText(await chat.tap("confirm:yes"), m.rejectedSendPhoto);
+    await expectStep(chat, "await_photo");
+  }],
+
+  ["Voltar no carrinho desfaz o último item para corrigir a quantidade", async (env) => {
+    const chat = newChat(env);
+    await register(chat);
+    await addItem(chat, "PCB", 3);
+    await chat.tap("back:await_qty");
+    await expectStep(chat, "await_qty");
+    expectText(await chat.text("4"), m.askMore);
+    const d = await store.get<Draft>(`ecoleta:draft:${chat.id}`);
+    assert(d?.items?.length === 1 && d.items[0].qty === 4, `carrinho ${JSON.stringify(d?.items)}`);
+  }],
+
+  ["CEP genérico pede rua e bairro", async (env) => {
+    const chat = newChat(env);
+    await register(chat);
+    await addItem(chat, "Keyboard", 1);
+    await chat.tap("more:no");
+    expectText(await chat.text("13300000"), m.missingStreet.both);
+    await expectStep(chat, "await_street");
+    await chat.text("Rua das Flores, Centro");
+    await expectStep(chat, "await_number");
+  }],
+
+  ["provedores de CEP fora do ar: endereço digitado por inteiro", async (env) => {
+    const chat = newChat(env);
+    await register(chat);
+    await addItem(chat, "Keyboard", 1);
+    await chat.tap("more:no");
+    expectText(await chat.text("99999999"), m.cepUnavailable);
+    await expectStep(chat, "await_manual_address");
+    expectText(await chat.text("Rua sem número"), m.manualInvalid);
+    await chat.text("Rua das Flores, 123 apto 4, Centro, São Paulo/SP");
+    await expectStep(chat, "await_day");
+  }],
+
+  ["Voltar ao carrinho depois do CEP fora do ar aceita um CEP novo", async (env) => {
+    const chat = newChat(env);
+    await register(chat);
+    await addItem(chat, "Keyboard", 1);
+    await chat.tap("more:no");
+    await chat.text("99999999");
+    await expectStep(chat, "await_manual_address");
+    await chat.tap("back:await_more");
+    await expectStep(chat, "await_more");
+    expectText(await chat.tap("more:no"), m.askCepAfterCart);
+    await chat.text("01001000");
+    await expectStep(chat, "await_number");
+  }],
+
+  ["Voltar em toda pergunta: CEP de novo, localização recusada e data indisponível", async (env) => {
+    const chat = newChat(env);
+    await register(chat);
+    await addItem(chat, "Keyboard", 1);
+    await chat.tap("more:no");
+    await chat.text("99999999");
+    let turn = await chat.tap("addr:retry");
+    assert(turn.buttons.includes("back:await_more"), "CEP de novo sem Voltar");
+    await chat.location(-23.5614, -46.6559);
+    turn = await chat.tap("loc:no");
+    expectText(turn, m.askCepOk);
+    assert(turn.buttons.includes("back:await_more"), "localização recusada sem Voltar");
+    await chat.text("01001000");
+    await chat.text("100");
+    await expectStep(chat, "await_day");
+    turn = await chat.tap("day:2000-01-01");
+    expectText(turn, m.dateUnavailable);
+    assert(turn.buttons.includes("back:await_number"), "data indisponível sem Voltar");
+  }],
+
+  ["botão de localização volta junto com a pergunta do CEP", async (env) => {
+    const chat = newChat(env);
+    await register(chat);
+    await addItem(chat, "Keyboard", 1);
+    await chat.tap("more:no");
+    await chat.text("99999999");
+    expectText(await chat.tap("addr:retry"), m.orShareLocation);
+    await chat.location(-23.5614, -46.6559);
+    expectText(await chat.tap("loc:no"), m.orShareLocation);
+    await chat.text("01001000");
+    await expectStep(chat, "await_number");
+    expectText(await chat.tap("back:await_cep"), m.orShareLocation);
+    await chat.text("01001000");
+    await chat.text("100");
+    const slot = slots(["Keyboard"])[0];
+    await chat.tap(`day:${slot.day}`);
+    await chat.tap(`time:${slot.day}T${slot.time}`);
+    await expectStep(chat, "review");
+    expectText(await chat.tap("edit:address"), m.orShareLocation);
+    await expectStep(chat, "await_cep");
+  }],
+
+  ["CEP inexistente", async (env) => {
+    const chat = newChat(env);
+    await register(chat);
+    await addItem(chat, "Keyboard", 1);
+    await chat.tap("more:no");
+    expectText(await chat.text("00000000"), m.cepNotFound);
+    await expectStep(chat, "await_cep");
+  }],
+
+  ["localização compartilhada no lugar do CEP", async (env) => {
+    const chat = newChat(env);
+    await register(chat);
+    await addItem(chat, "Keyboard", 1);
+    await chat.tap("more:no");
+    await chat.location(-23.5614, -46.6559); // Av. Paulista (GEOCODER=local)
+    await expectStep(chat, "await_location");
+    await chat.tap("loc:yes");
+    await expectStep(chat, "await_number");
+  }],
+
+  ["localização fora da área sugere ecopontos pela distância real", async (env) => {
+    const chat = newChat(env);
+    await register(chat);
+    await addItem(chat, "Keyboard", 1);
+    await chat.tap("more:no");
+    const turn = await chat.location(-22.9068, -43.1729); // centro do Rio (GEOCODER=local)
+    expectText(turn, m.outOfArea("Rio de Janeiro/RJ"));
+    expectText(turn, " km)"); // distância só aparece quando a origem tem coordenadas
+    await expectStep(chat, "await_cep");
+  }],
+
+  ["item volumoso pergunta andar/elevador antes da data", async (env) => {
+    const chat = newChat(env);
+    await register(chat);
+    await addItem(chat, "Television", 1);
+    await giveAddress(chat);
+    await expectStep(chat, "await_access");
+    expectText(await chat.tap("access:escada"), m.groundFloorNote);
+    await expectStep(chat, "await_day");
+  }],
+
+  ["revisão: editar o nome volta para a revisão", async (env) => {
+    const chat = newChat(env);
+    await register(chat);
+    await addItem(chat, "Keyboard", 1);
+    await giveAddress(chat);
+    const slot = slots(["Keyboard"])[0];
+    await chat.tap(`day:${slot.day}`);
+    await chat.tap(`time:${slot.day}T${slot.time}`);
+    await expectStep(chat, "review");
+    expectText(await chat.tap("edit:name"), m.askName);
+    await expectStep(chat, "name");
+    expectText(await chat.text("Maria Souza"), "*Maria Souza*");
+    await expectStep(chat, "review");
+  }],
+
+  ["botão antigo não pula passos (transição não declarada)", async (env) => {
+    const chat = newChat(env);
+    await register(chat);
+    expectText(await chat.tap("back:await_number"), m.lostState);
+    await expectStep(chat, "await_photo");
+    expectText(await chat.tap("qty:other"), m.photoFirst);
+    await expectStep(chat, "await_photo");
+  }],
+
+  ["toque duplo em Confirmar grava um pedido só", async (env) => {
+    const chat = newChat(env);
+    await register(chat);
+    await addItem(chat, "Keyboard", 1);
+    await giveAddress(chat);
+    const slot = slots(["Keyboard"])[0];
+    await chat.tap(`day:${slot.day}`);
+    await chat.tap(`time:${slot.day}T${slot.time}`);
+    await expectStep(chat, "review");
+    const before = await slotUsage(slot.day, slot.time);
+    await Promise.all([chat.tap("review:confirm"), chat.tap("review:confirm")]);
+    const orders = await listOrders(chat.id);
+    assert(orders.length === 1, `${orders.length} pedidos gravados`);
+    assert(await slotUsage(slot.day, slot.time) === before + 1, "mais de uma vaga reservada");
+    await expectStep(chat, "done");
+  }],
+
+  ["confirmação travada por uma execução que morreu é retomada depois de vencer", async (env) => {
+    const chat = newChat(env);
+    await register(chat);
+    await addItem(chat, "Keyboard", 1);
+    await giveAddress(chat);
+    const slot = slots(["Keyboard"])[0];
+    await chat.tap(`day:${slot.day}`);
+    await chat.tap(`time:${slot.day}T${slot.time}`);
+    await expectStep(chat, "review");
+    // simula a trava deixada no meio da gravação (o passo não é cifrado)
+    const key = `ecoleta:draft:${chat.id}`;
+    const claim = async (ageMs: number) => {
+      const d = (await store.get<Draft>(key))!;
+      await store.setVersioned(key, { ...d, step: "confirming", claimedAt: new Date(Date.now() - ageMs).toISOString() }, null, 600);
+    };
+    await claim(0);
+    expectText(await chat.tap("review:confirm"), m.stillConfirming);
+    assert((await listOrders(chat.id)).length === 0, "gravou com a trava ainda valendo");
+    await claim(60_000);
+    expectText(await chat.tap("review:confirm"), m.registered);
+    assert((await listOrders(chat.id)).length === 1, "trava vencida não foi retomada");
+    await expectStep(chat, "done");
+  }],
+
+  ["QR do comprovante abre o pedido para a equipe", async (env) => {
+    const { chat, protocol } = await placeOrder(env);
+    const operator = new Chat(env, env.operatorId);
+    const turn = await operator.text(`/start ${pickupPayload(protocol)}`);
+    expectText(turn, protocol);
+    assert(turn.buttons.includes(`op:coletado:${protocol}`), "faltou o botão Coletado");
+    expectText(await operator.text(`/start pickup_${protocol}_0000000000000000`), "QR code inválido");
+    // cidadão que lê o próprio QR cai no /start normal
+    expectText(await chat.text(`/start ${pickupPayload(protocol)}`), m.welcomeBack("Maria da Silva"));
+
+    const before = env.fakes.calls.length;
+    await operator.tap(`op:coletado:${protocol}`);
+    assert((await getOrder(protocol))?.status === "coletado", "status não mudou");
+    const notice = env.fakes.calls.slice(before).find((c) => c.method === "sendMessage" && Number(c.params.chat_id) === chat.id);
+    assert(notice?.params.text.includes(m.notice.coletado!), "cidadão não foi avisado");
+  }],
+
+  ["reagendamento reenvia o convite e o comprovante", async (env) => {
+    const { chat, protocol } = await placeOrder(env);
+    await chat.tap(`order:resched:${protocol}`);
+    await expectStep(chat, "await_day");
+    const slot = slots(["Keyboard"])[1];
+    await chat.tap(`day:${slot.day}`);
+    const turn = await chat.tap(`time:${slot.day}T${slot.time}`);
+    expectText(turn, m.rescheduled);
+    assert(turn.calls.filter((c) => c.method === "sendDocument").length === 2, "convite/comprovante não reenviados");
+    await expectStep(chat, "done");
+    const o = await getOrder(protocol);
+    assert(o?.schedule.day === slot.day && o.schedule.time === slot.time, "pedido não foi reagendado");
+  }],
+
+  ["pedido com presença confirmada pode ser reagendado", async (env) => {
+    const { chat, protocol } = await placeOrder(env);
+    expectText(await chat.tap(`order:confirm:${protocol}`), m.thanksConfirm);
+    assert((await getOrder(protocol))?.status === "confirmado", "presença não foi confirmada");
+    await chat.tap(`order:resched:${protocol}`);
+    const slot = slots(["Keyboard"])[2];
+    await chat.tap(`day:${slot.day}`);
+    expectText(await chat.tap(`time:${slot.day}T${slot.time}`), m.rescheduled);
+    const o = await getOrder(protocol);
+    assert(o?.status === "agendado", `status ${o?.status}, esperava agendado`);
+    assert(o.schedule.day === slot.day && o.schedule.time === slot.time, "pedido não foi reagendado");
+  }],
+
+  ["toques simultâneos no horário reagendam uma vez só", async (env) => {
+    const { chat, protocol } = await placeOrder(env);
+    const old = (await getOrder(protocol))!.schedule;
+    await chat.tap(`order:resched:${protocol}`);
+    const slot = slots(["Keyboard"])[4];
+    await chat.tap(`day:${slot.day}`);
+    const [usedBefore, oldBefore] = [await slotUsage(slot.day, slot.time), await slotUsage(old.day!, old.time!)];
+    const turns = await Promise.all([1, 2, 3].map(() => chat.tap(`time:${slot.day}T${slot.time}`)));
+    const done = turns.filter((t) => t.texts.some((s) => s.includes(m.rescheduled)));
+    assert(done.length === 1, `${done.length} reagendamentos confirmados`);
+    assert(await slotUsage(slot.day, slot.time) === usedBefore + 1, "mais de uma vaga reservada");
+    assert(await slotUsage(old.day!, old.time!) === oldBefore - 1, "vaga antiga não foi liberada uma vez só");
+    await expectStep(chat, "done");
+  }],
+
+  ["/meusdados exporta só dados pessoais, mascarados", async (env) => {
+    const chat = newChat(env);
+    await register(chat);
+    await chat.photo(imageId("Keyboard", 0.95));
+    const doc = (await chat.text("/meusdados")).calls.find((c) => c.method === "sendDocument");
+    assert(doc?.params.file, "exportação não foi enviada");
+    const dump = JSON.parse(doc.params.file.toString("utf8"));
+    const raw = JSON.stringify(dump);
+    assert(!raw.includes("/file/bot") && !raw.includes("latestFile"), "exportação leva estado interno/URL com token");
+    assert(dump.profile?.user.cpf === "***.982.247-**", `CPF exportado: ${dump.profile?.user.cpf}`);
+    assert(dump.draft?.user.name === "Maria da Silva", "faltou o rascunho em andamento");
+  }],
+
+  ["pedidos e mudanças de status simultâneos não se perdem", async (env) => {
+    const chatId = newChat(env).id;
+    const slot = slots(["Keyboard"])[3];
+    const data = {
+      user: { name: "Ana" }, items: [{ item: { label: "Keyboard", score: 1 }, qty: 1 }],
+      address: { cep: "01001-000", localidade: "São Paulo", uf: "SP" }, schedule: slot,
+    };
+    const created = await Promise.all(Array.from({ length: 4 }, () => createOrder(chatId, data)));
+    const byDay = (await listOrdersByDay(slot.day)).map((o) => o.protocol);
+    const byChat = (await listOrders(chatId)).map((o) => o.protocol);
+    for (const o of created) {
+      assert(byDay.includes(o.protocol) && byChat.includes(o.protocol), `${o.protocol} sumiu do índice`);
+    }
+    const { protocol } = created[0];
+    const [collected, cancelled] = await Promise.all([
+      updateOrder(protocol, { status: "coletado" }),
+      updateOrder(protocol, { status: "cancelado" }),
+    ]);
+    assert(!!collected !== !!cancelled, "as duas mudanças de status foram aceitas");
+    assert((await getOrder(protocol))?.status === (collected ?? cancelled)!.status, "status gravado difere do aceito");
+  }],
+
+  ["lembrete de véspera só sai na janela do fim do dia", async (env) => {
+    const { chat, protocol } = await placeOrder(env);
+    const eve = addDaysISO((await getOrder(protocol))!.schedule.day, -1);
+    const sent = () => env.fakes.calls.filter((c) => c.method === "sendMessage" && Number(c.params.chat_id) === chat.id
+      && c.params.text.includes(protocol) && c.params.reply_markup?.inline_keyboard?.flat()
+        .some((b: any) => b.callback_data === `order:confirm:${protocol}`)).length;
+    await runReminders(slotInstant(eve, "00:30"));
+    assert(sent() === 0, "lembrete de véspera saiu de madrugada");
+    await runReminders(slotInstant(eve, "18:30"));
+    assert(sent() === 1, "lembrete de véspera não saiu às 18h30");
+  }],
+
+  ["update que falhou é tratado na reentrega; o repetido é descartado", async (env) => {
+    const chat = newChat(env);
+    env.fakes.failNext("sendMessage");
+    const failed = await chat.text("/help").then(() => false, () => true);
+    assert(failed, "o webhook devia responder erro");
+    expectText(await chat.retry(), m.help);
+    const again = await chat.retry();
+    assert(!again.texts.length, "update já tratado foi processado de novo");
+  }],
+
+  ["protocolo repetido é sorteado de novo, sem sobrescrever o pedido existente", async (env) => {
+    const chatId = newChat(env).id;
+    const data = {
+      user: { name: "Ana" }, items: [{ item: { label: "Keyboard", score: 1 }, qty: 1 }],
+      address: { cep: "01001-000", localidade: "São Paulo", uf: "SP" }, schedule: slots(["Keyboard"])[0],
+    };
+    const random = Math.random;
+    const draws = [0.5, 0.5, 0.7];
+    Math.random = () => draws.shift() ?? random();
+    try {
+      const first = await createOrder(chatId, data);
+      const second = await createOrder(chatId + 1000, data);
+      assert(first.protocol !== second.protocol, "protocolo repetido foi aceito");
+      assert((await getOrder(first.protocol))?.chatId === chatId, "pedido existente foi sobrescrito");
+      assert(first.protocol.startsWith(`EC${localDayISO().slice(2).replace(/-/g, "")}-`), `data do protocolo: ${first.protocol}`);
+    } finally {
+      Math.random = random;
+    }
+  }],
+
+  ["idioma do Telegram e /idioma", async (env) => {
+    const chat = new Chat(env, ++nextChatId, "en");
+    expectText(await chat.text("/start"), t("en").consent);
+    expectText(await chat.text("/idioma es"), t("es").languageSet);
+    expectText(await chat.text("/help"), t("es").help);
+  }],
+];
+
+export async function runReplay(env: ReplayEnv, only?: string): Promise<ScenarioResult[]> {
+  const results: ScenarioResult[] = [];
+  for (const [name, scenario] of SCENARIOS) {
+    if (only && !name.includes(only)) continue;
+    try {
+      await scenario(env);
+      results.push({ name, ok: true });
+    } catch (e: any) {
+      results.push({ name, ok: false, error: e?.message || String(e) });
+    }
+  }
+  return results;
+}
@@ -0,0 +1,35 @@
+// scripts/store-contract.ts — contrato completo do Store contra cada backend disponível
+// memory e file sempre; redis com REDIS_URL; upstash com UPSTASH_REDIS_REST_URL/TOKEN.
+// Uso: npm run store-contract
+import { rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createStore } from "../api/_lib/store.js";
+import { runStoreContract } from "../api/_lib/store-contract.js";
+
+const env: NodeJS.ProcessEnv = { ...process.env, STORE_FILE: join(tmpdir(), `ecoleta-store-contract-${process.pid}.json`) };
+const backends = [
+  "memory", "file",
+  ...(env.REDIS_URL ? ["redis"] : []),
+  ...(env.UPSTASH_REDIS_REST_URL && env.UPSTASH_REDIS_REST_TOKEN ? ["upstash"] : []),
+];
+
+// um backend por vez: a verificação de TTL espera de verdade
+let failures = 0;
+for (const b of backends) {
+  const store = createStore(b, env);
+  try {
+    const results = await runStoreContract(store);
+    const failed = results.filter((r) => !r.ok);
+    failures += failed.length;
+    console.log(`${failed.length ? "❌" : "✅"} ${b}: ${results.length - failed.length}/${results.length}`);
+    for (const r of failed) console.log(`   • ${r.name}: ${r.error}`);
+  } catch (e: any) {
+    failures++;
+    console.log(`❌ ${b}: ${e?.message || e}`);
+  } finally {
+    await store.close?.();
+  }
+}
+await rm(env.STORE_FILE!, { force: true });
+process.exitCode = failures ? 1 : 0;